@@ -0,0 +1,159 @@
+// scripts/glb.ts - Minimal GLB reader for offline model inspection (no rendering)
+
+import { Box3, Matrix4, Quaternion, Vector3 } from 'three';
+
+const GLB_MAGIC = 0x46546c67;   // "glTF"
+const CHUNK_JSON = 0x4e4f534a;  // "JSON"
+
+export interface GlbPrimitive {
+  node: string;
+  mesh: string;                 // Object name as GLTFLoader would assign it
+  material: string;
+  vertices: number;
+  triangles: number;
+  bounds: Box3;                 // World-space bounds (bind pose)
+}
+
+export interface GlbBone {
+  name: string;
+  parent: string | null;
+  skin: number;
+}
+
+export interface GlbModel {
+  generator: string | null;
+  primitives: GlbPrimitive[];
+  materials: string[];
+  bones: GlbBone[];
+  bounds: Box3;
+  triangles: number;
+}
+
+/**
+ * PropertyBinding.sanitizeNodeName, as GLTFLoader applies it to object names
+ */
+function sanitizeNodeName(name: string): string {
+  return name.replace(/\s/g, '_').replace(/[\[\].:\/]/g, '');
+}
+
+/**
+ * Extract the glTF JSON from a binary GLB file
+ */
+export function readGlbJson(buffer: Uint8Array): any {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  if (buffer.byteLength < 20 || view.getUint32(0, true) !== GLB_MAGIC) {
+    throw new Error('Not a GLB file (bad magic)');
+  }
+  const version = view.getUint32(4, true);
+  if (version !== 2) {
+    throw new Error(`Unsupported glTF version ${version}`);
+  }
+  const chunkLength = view.getUint32(12, true);
+  if (view.getUint32(16, true) !== CHUNK_JSON) {
+    throw new Error('GLB is missing its JSON chunk');
+  }
+  return JSON.parse(new TextDecoder().decode(buffer.subarray(20, 20 + chunkLength)));
+}
+
+function triangleCount(mode: number | undefined, count: number): number {
+  switch (mode ?? 4) {
+    case 4: return Math.floor(count / 3);       // TRIANGLES
+    case 5:                                     // TRIANGLE_STRIP
+    case 6: return Math.max(0, count - 2);      // TRIANGLE_FAN
+    default: return 0;                          // Points and lines
+  }
+}
+
+function nodeMatrix(node: any): Matrix4 {
+  if (Array.isArray(node.matrix)) {
+    return new Matrix4().fromArray(node.matrix);
+  }
+  const t = node.translation ?? [0, 0, 0];
+  const r = node.rotation ?? [0, 0, 0, 1];
+  const s = node.scale ?? [1, 1, 1];
+  return new Matrix4().compose(
+    new Vector3(t[0], t[1], t[2]),
+    new Quaternion(r[0], r[1], r[2], r[3]),
+    new Vector3(s[0], s[1], s[2])
+  );
+}
+
+/**
+ * Walk the default scene and collect primitives, materials and bones.
+ * Bounds come from the POSITION accessor min/max, so no buffer decoding is needed.
+ */
+export function inspectGlb(buffer: Uint8Array): GlbModel {
+  const gltf = readGlbJson(buffer);
+  const nodes: any[] = gltf.nodes ?? [];
+  const meshes: any[] = gltf.meshes ?? [];
+  const accessors: any[] = gltf.accessors ?? [];
+  const materials: string[] = (gltf.materials ?? []).map((m: any, i: number) => m.name ?? `material_${i}`);
+
+  const primitives: GlbPrimitive[] = [];
+  const bounds = new Box3();
+
+  const visit = (index: number, parentMatrix: Matrix4) => {
+    const node = nodes[index];
+    if (!node) return;
+    const world = parentMatrix.clone().multiply(nodeMatrix(node));
+
+    if (node.mesh !== undefined) {
+      const meshDef = meshes[node.mesh];
+      const meshName = sanitizeNodeName(meshDef.name ?? `mesh_${node.mesh}`);
+      const nodeName = sanitizeNodeName(node.name ?? meshName);
+      const primitiveDefs: any[] = meshDef.primitives ?? [];
+
+      primitiveDefs.forEach((primitive, i) => {
+        const position = accessors[primitive.attributes?.POSITION];
+        if (!position?.min || !position?.max) return;
+
+        const local = new Box3(
+          new Vector3().fromArray(position.min),
+          new Vector3().fromArray(position.max)
+        );
+        const worldBounds = local.clone().applyMatrix4(world);
+        bounds.union(worldBounds);
+
+        const count = primitive.indices !== undefined ? accessors[primitive.indices].count : position.count;
+        primitives.push({
+          node: nodeName,
+          // A single primitive takes the node's name; several become children named mesh_<i>
+          mesh: primitiveDefs.length > 1 ? `${meshName}_${i}` : nodeName,
+          material: primitive.material !== undefined ? materials[primitive.material] : '',
+          vertices: position.count,
+          triangles: triangleCount(primitive.mode, count),
+          bounds: worldBounds
+        });
+      });
+    }
+
+    (node.children ?? []).forEach((child: number) => visit(child, world));
+  };
+
+  const scene = gltf.scenes?.[gltf.scene ?? 0];
+  const roots: number[] = scene?.nodes ?? nodes.map((_, i) => i);
+  roots.forEach(root => visit(root, new Matrix4()));
+
+  const parents = new Map<number, number>();
+  nodes.forEach((node, i) => (node.children ?? []).forEach((child: number) => parents.set(child, i)));
+  const bones: GlbBone[] = [];
+  (gltf.skins ?? []).forEach((skin: any, skinIndex: number) => {
+    (skin.joints ?? []).forEach((joint: number) => {
+      const parent = parents.get(joint);
+      bones.push({
+        name: nodes[joint]?.name ?? `joint_${joint}`,
+        parent: parent !== undefined ? nodes[parent]?.name ?? `joint_${parent}` : null,
+        skin: skinIndex
+      });
+    });
+  });
+
+  return {
+    generator: gltf.asset?.generator ?? null,
+    primitives,
+    materials,
+    bones,
+    bounds,
+    triangles: primitives.reduce((sum, p) => sum + p.triangles, 0)
+  };
+}
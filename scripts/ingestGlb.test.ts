@@ -0,0 +1,49 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { analyzeGeometry, findReference, isPlausibleFrameWidth, suggestSettings } from './ingestGlb.ts';
+import { inspectGlb } from './glb.ts';
+import { parseMaterialMapping } from '../src/materialMapping.ts';
+import { SETTINGS_RANGES, type GlassesSettings } from '../src/settings.ts';
+
+const PUBLIC_DIR = join(import.meta.dirname, '../public');
+const catalog = JSON.parse(readFileSync(join(PUBLIC_DIR, 'models/catalog.json'), 'utf8'));
+const classic = catalog.frames.find((f: any) => f.id === 'classic');
+const geometry = analyzeGeometry(
+  inspectGlb(readFileSync(join(PUBLIC_DIR, classic.model))),
+  parseMaterialMapping(classic.materialMapping, 'catalog frame classic')
+);
+
+function expectInRange(settings: GlassesSettings) {
+  (Object.keys(settings) as (keyof GlassesSettings)[]).forEach((axis) => {
+    expect(settings[axis]).toBeGreaterThanOrEqual(SETTINGS_RANGES[axis].min);
+    expect(settings[axis]).toBeLessThanOrEqual(SETTINGS_RANGES[axis].max);
+  });
+}
+
+describe('ingestGlb', () => {
+  it('reproduces the hand-tuned settings of the bundled model from its own entry', () => {
+    const reference = findReference(catalog, PUBLIC_DIR, undefined, classic);
+    expect(reference?.id).toBe('classic');
+
+    const { settings, clamped } = suggestSettings(geometry, classic.frameWidthMm, reference);
+    expect(clamped).toEqual([]);
+    (Object.keys(classic.defaultSettings) as (keyof GlassesSettings)[]).forEach((axis) => {
+      expect(settings[axis]).toBeCloseTo(classic.defaultSettings[axis], 3);
+    });
+  });
+
+  it('keeps suggestions inside the slider ranges without a reference', () => {
+    const { settings } = suggestSettings(geometry, 136, null);
+    expectInRange(settings);
+  });
+
+  it('flags the bundled model as implausible when assumed to be in metres', () => {
+    expect(isPlausibleFrameWidth(geometry.widthUnits * 1000)).toBe(false);
+    expect(isPlausibleFrameWidth(136)).toBe(true);
+
+    const { settings, clamped } = suggestSettings(geometry, geometry.widthUnits * 1000, null);
+    expectInRange(settings);
+    expect(clamped.length).toBeGreaterThan(0);
+  });
+});
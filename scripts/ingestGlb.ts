@@ -0,0 +1,438 @@
+// scripts/ingestGlb.ts - Inspect a GLB frame model and generate its catalog entry
+//
+// Usage: npm run ingest -- --help
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, extname, join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { Box3, Euler, MathUtils, Vector3 } from 'three';
+import { inspectGlb, type GlbModel, type GlbPrimitive } from './glb.ts';
+import {
+  DEFAULT_MATERIAL_MAPPING,
+  MaterialMapper,
+  parseMaterialMapping,
+  type MaterialMappingConfig,
+  type MaterialRole
+} from '../src/materialMapping.ts';
+import { DEFAULT_SETTINGS, clampSettings, mergeSettings, type GlassesSettings } from '../src/settings.ts';
+
+type HorizontalAxis = 'x' | 'z';
+
+export interface ModelGeometry {
+  roles: Map<GlbPrimitive, MaterialRole | null>;
+  widthAxis: HorizontalAxis;
+  depthAxis: HorizontalAxis;
+  templeSign: number;               // Direction the temples point along depthAxis
+  orientationSource: 'temples' | 'assumed';
+  rotY: number;                     // Degrees that turn the temples to -Z (glTF convention)
+  widthUnits: number;               // Total front width in model units
+  bridge: Vector3;                  // Estimated bridge point in model units
+  lensWidthUnits: number | null;
+  bridgeWidthUnits: number | null;
+  templeLengthUnits: number | null;
+}
+
+const USAGE = `Usage: npm run ingest -- <model.glb> [options]
+  --id <id>                 Catalog id (default: file name)
+  --name <name>             Display name (default: id)
+  --model-path <path>       Path served to the app (default: /models/<file>)
+  --frame-width <mm>        Real total front width; sets the model's scale in mm
+  --lens-width <mm>         Override the measured lens width
+  --bridge-width <mm>       Override the measured bridge width
+  --temple-length <mm>      Override the measured temple length
+  --catalog <file>          Catalog to read mapping rules / reference frame from (default: public/models/catalog.json)
+  --reference <id>          Hand-tuned catalog frame used to place the new one (default: first one found)
+  --write                   Add or replace the entry in the catalog instead of printing it
+  -h, --help                Show this help`;
+
+/**
+ * A hand-tuned catalog frame that new models are placed against
+ */
+export interface PlacementReference {
+  id: string;
+  settings: GlassesSettings;
+  geometry: ModelGeometry;
+  frameWidthMm: number;
+}
+
+// Plausible total frame widths, to flag wrong unit assumptions
+const PLAUSIBLE_FRAME_WIDTH_MM = [110, 170];
+
+// Anchor units per mm without a reference (MindAR's face space is in metres)
+const DEFAULT_ANCHOR_UNITS_PER_MM = 0.001;
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+}
+
+function round(value: number, digits: number = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function formatVector(v: Vector3, digits: number = 3): string {
+  return `(${v.x.toFixed(digits)}, ${v.y.toFixed(digits)}, ${v.z.toFixed(digits)})`;
+}
+
+function unionBounds(primitives: GlbPrimitive[]): Box3 {
+  return primitives.reduce((box, p) => box.union(p.bounds), new Box3());
+}
+
+export function isPlausibleFrameWidth(frameWidthMm: number): boolean {
+  return frameWidthMm >= PLAUSIBLE_FRAME_WIDTH_MM[0] && frameWidthMm <= PLAUSIBLE_FRAME_WIDTH_MM[1];
+}
+
+/**
+ * Work out the frame's orientation, bridge point and part sizes from material roles
+ */
+export function analyzeGeometry(model: GlbModel, mapping: MaterialMappingConfig): ModelGeometry {
+  const mapper = new MaterialMapper(mapping);
+  const roles = new Map<GlbPrimitive, MaterialRole | null>();
+  model.primitives.forEach((p) => {
+    const rule = mapper.match(p.mesh, p.material);
+    roles.set(p, rule >= 0 ? mapping.rules[rule].role : null);
+  });
+
+  const withRole = (role: MaterialRole) => model.primitives.filter(p => roles.get(p) === role);
+  const temples = withRole('temple');
+  const lenses = withRole('lens');
+  const front = model.primitives.filter(p => roles.get(p) !== 'temple');
+
+  // Temples point away from the front; without them assume the glTF convention (front faces +Z)
+  let depthAxis: HorizontalAxis = 'z';
+  let templeSign = -1;
+  let orientationSource: ModelGeometry['orientationSource'] = 'assumed';
+  if (temples.length > 0 && front.length > 0) {
+    const direction = unionBounds(temples).getCenter(new Vector3())
+      .sub(unionBounds(front).getCenter(new Vector3()));
+    depthAxis = Math.abs(direction.x) > Math.abs(direction.z) ? 'x' : 'z';
+    templeSign = Math.sign(direction[depthAxis]) || -1;
+    orientationSource = 'temples';
+  }
+  const widthAxis: HorizontalAxis = depthAxis === 'x' ? 'z' : 'x';
+  const rotY = depthAxis === 'z'
+    ? (templeSign < 0 ? 0 : 180)
+    : (templeSign > 0 ? 90 : -90);
+
+  const size = model.bounds.getSize(new Vector3());
+  const frontBounds = front.length > 0 ? unionBounds(front) : model.bounds;
+  const lensBounds = lenses.length > 0 ? unionBounds(lenses) : null;
+
+  // Bridge: centred across the front, at lens height, on the front face
+  const bridge = new Vector3();
+  bridge[widthAxis] = model.bounds.getCenter(new Vector3())[widthAxis];
+  bridge.y = (lensBounds ?? frontBounds).getCenter(new Vector3()).y;
+  bridge[depthAxis] = lensBounds
+    ? lensBounds.getCenter(new Vector3())[depthAxis]
+    : (templeSign < 0 ? frontBounds.max[depthAxis] : frontBounds.min[depthAxis]);
+
+  // Lens and bridge widths need one primitive per lens
+  let lensWidthUnits: number | null = null;
+  let bridgeWidthUnits: number | null = null;
+  if (lenses.length >= 2) {
+    const sorted = [...lenses].sort((a, b) =>
+      a.bounds.getCenter(new Vector3())[widthAxis] - b.bounds.getCenter(new Vector3())[widthAxis]);
+    const widths = sorted.map(p => p.bounds.getSize(new Vector3())[widthAxis]);
+    lensWidthUnits = widths.reduce((sum, w) => sum + w, 0) / widths.length;
+    const middle = Math.floor(sorted.length / 2);
+    bridgeWidthUnits = Math.max(0, sorted[middle].bounds.min[widthAxis] - sorted[middle - 1].bounds.max[widthAxis]);
+  }
+
+  const templeLengthUnits = temples.length > 0
+    ? unionBounds(temples).getSize(new Vector3())[depthAxis]
+    : null;
+
+  return {
+    roles,
+    widthAxis,
+    depthAxis,
+    templeSign,
+    orientationSource,
+    rotY,
+    widthUnits: size[widthAxis],
+    bridge,
+    lensWidthUnits,
+    bridgeWidthUnits,
+    templeLengthUnits
+  };
+}
+
+function rotationOf(settings: GlassesSettings): Euler {
+  // A-Frame rotations are degrees in YXZ order
+  return new Euler(
+    MathUtils.degToRad(settings.rotX),
+    MathUtils.degToRad(settings.rotY),
+    MathUtils.degToRad(settings.rotZ),
+    'YXZ'
+  );
+}
+
+/**
+ * Where a model's bridge ends up in anchor space with the given settings
+ */
+function bridgeInAnchorSpace(bridge: Vector3, settings: GlassesSettings): Vector3 {
+  return bridge.clone()
+    .multiplyScalar(settings.scale)
+    .applyEuler(rotationOf(settings))
+    .add(new Vector3(settings.posX, settings.posY, settings.posZ));
+}
+
+/**
+ * Wrap an angle to (-180, 180] degrees
+ */
+function wrapDegrees(degrees: number): number {
+  const wrapped = ((degrees % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+}
+
+/**
+ * The hand-tuned frame to place a model against: `referenceId` if given, else
+ * the model's own catalog entry, else the first other frame whose model exists
+ */
+export function findReference(
+  catalog: { frames: any[] },
+  publicDir: string,
+  referenceId: string | undefined,
+  existing: any
+): PlacementReference | null {
+  const usable = (frame: any) => !!frame && frame.frameWidthMm > 0 && existsSync(join(publicDir, frame.model));
+  const frame = referenceId
+    ? catalog.frames.find(f => f.id === referenceId && usable(f))
+    : [existing, ...catalog.frames].find(usable);
+  if (!frame) {
+    return null;
+  }
+  return {
+    id: frame.id,
+    settings: mergeSettings(DEFAULT_SETTINGS, frame.defaultSettings),
+    geometry: analyzeGeometry(
+      inspectGlb(readFileSync(join(publicDir, frame.model))),
+      parseMaterialMapping(frame.materialMapping, `catalog frame ${frame.id}`)
+    ),
+    frameWidthMm: frame.frameWidthMm
+  };
+}
+
+/**
+ * Default settings that give the model its real width and put its bridge where
+ * the reference puts its own. The model is turned the way the reference is
+ * turned relative to its detected orientation: a catalog whose models don't
+ * face +Z has that correction in its hand-tuned rotY, and new models from the
+ * same pipeline need the same one. Values are clamped to the slider ranges.
+ * @returns The settings and the axes that had to be clamped
+ */
+export function suggestSettings(
+  geometry: ModelGeometry,
+  frameWidthMm: number,
+  reference: PlacementReference | null
+): { settings: GlassesSettings; clamped: (keyof GlassesSettings)[] } {
+  let anchorUnitsPerMm = DEFAULT_ANCHOR_UNITS_PER_MM;
+  let targetBridge = new Vector3(DEFAULT_SETTINGS.posX, DEFAULT_SETTINGS.posY, DEFAULT_SETTINGS.posZ);
+  let rotation = { rotX: 0, rotY: geometry.rotY, rotZ: 0 };
+  if (reference) {
+    anchorUnitsPerMm = reference.settings.scale * reference.geometry.widthUnits / reference.frameWidthMm;
+    targetBridge = bridgeInAnchorSpace(reference.geometry.bridge, reference.settings);
+    rotation = {
+      rotX: reference.settings.rotX,
+      rotY: wrapDegrees(reference.settings.rotY + geometry.rotY - reference.geometry.rotY),
+      rotZ: reference.settings.rotZ
+    };
+  }
+
+  const scale = anchorUnitsPerMm * frameWidthMm / geometry.widthUnits;
+  const unplaced: GlassesSettings = { ...DEFAULT_SETTINGS, posX: 0, posY: 0, posZ: 0, scale, ...rotation };
+  const position = targetBridge.clone().sub(bridgeInAnchorSpace(geometry.bridge, unplaced));
+  const suggested: GlassesSettings = {
+    posX: round(position.x),
+    posY: round(position.y),
+    posZ: round(position.z),
+    scale: round(scale, 6),
+    ...rotation
+  };
+
+  const settings = mergeSettings(suggested, clampSettings(suggested));
+  const clamped = (Object.keys(suggested) as (keyof GlassesSettings)[])
+    .filter(axis => settings[axis] !== suggested[axis]);
+  return { settings, clamped };
+}
+
+function parseNumber(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = parseFloat(value);
+  if (!(number > 0)) fail(`--${flag} must be a positive number`);
+  return number;
+}
+
+function parseCommandLine() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        'model-path': { type: 'string' },
+        'frame-width': { type: 'string' },
+        'lens-width': { type: 'string' },
+        'bridge-width': { type: 'string' },
+        'temple-length': { type: 'string' },
+        catalog: { type: 'string', default: 'public/models/catalog.json' },
+        reference: { type: 'string' },
+        write: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (error) {
+    fail(`${(error as Error).message}\n\n${USAGE}`);
+  }
+}
+
+function main() {
+  const { values, positionals } = parseCommandLine();
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const file = positionals[0];
+  if (!file) fail(`Missing model file\n\n${USAGE}`);
+  if (!existsSync(file)) fail(`File not found: ${file}`);
+
+  const id = values.id ?? basename(file, extname(file));
+  const modelPath = values['model-path'] ?? `/models/${basename(file)}`;
+  const catalogPath = values.catalog!;
+  const publicDir = dirname(dirname(catalogPath));
+  const catalog = existsSync(catalogPath) ? JSON.parse(readFileSync(catalogPath, 'utf8')) : { version: 1, frames: [] };
+  const existing = catalog.frames.find((f: any) => f.id === id || f.model === modelPath);
+  const mapping = parseMaterialMapping(existing?.materialMapping, `catalog frame ${existing?.id}`);
+
+  let model: GlbModel;
+  try {
+    model = inspectGlb(readFileSync(file));
+  } catch (error) {
+    fail(`${file}: ${(error as Error).message}`);
+  }
+  const geometry = analyzeGeometry(model, mapping);
+  const warnings: string[] = [];
+
+  // ===== Units =====
+  const frameWidthArg = parseNumber(values['frame-width'], 'frame-width');
+  const mmPerUnit = frameWidthArg ? frameWidthArg / geometry.widthUnits : 1000; // glTF units are metres
+  const frameWidthMm = geometry.widthUnits * mmPerUnit;
+  const plausible = isPlausibleFrameWidth(frameWidthMm);
+  if (!frameWidthArg) {
+    warnings.push('Real size assumes metres (glTF spec); pass --frame-width for an exact scale');
+  }
+  if (!plausible) {
+    warnings.push(`Front width of ${frameWidthMm.toFixed(0)} mm is implausible; ` +
+      (frameWidthArg ? 'check --frame-width' : 'the model is probably not in metres, pass --frame-width'));
+  }
+
+  // ===== Report =====
+  const size = model.bounds.getSize(new Vector3());
+  console.log(`\n🕶️  ${file}${model.generator ? ` (${model.generator})` : ''}`);
+  console.log('\n📦 Bounding box (model units)');
+  console.log(`   min ${formatVector(model.bounds.min)}  max ${formatVector(model.bounds.max)}`);
+  console.log(`   size ${formatVector(size)}`);
+  console.log(`   ${mmPerUnit.toFixed(3)} mm/unit${frameWidthArg ? '' : ' (assumed)'} → ` +
+    `${(size.x * mmPerUnit).toFixed(1)} × ${(size.y * mmPerUnit).toFixed(1)} × ${(size.z * mmPerUnit).toFixed(1)} mm`);
+
+  console.log('\n🧭 Orientation');
+  console.log(`   width along ${geometry.widthAxis.toUpperCase()}, temples towards ` +
+    `${geometry.templeSign < 0 ? '-' : '+'}${geometry.depthAxis.toUpperCase()} (${geometry.orientationSource})`);
+  if (geometry.orientationSource === 'assumed') {
+    warnings.push('No temple materials found; orientation assumes the front faces +Z');
+  }
+
+  const originOffset = geometry.bridge.clone().negate();
+  console.log('\n📍 Origin relative to bridge');
+  console.log(`   bridge at ${formatVector(geometry.bridge)} units`);
+  console.log(`   origin offset ${formatVector(originOffset.clone().multiplyScalar(mmPerUnit), 1)} mm` +
+    (originOffset.length() * mmPerUnit > 2 ? '  ⚠️ origin is not at the bridge' : '  ✅'));
+
+  console.log('\n🧵 Materials');
+  model.primitives.forEach((p) => {
+    const role = geometry.roles.get(p);
+    console.log(`   ${role ? `✅ ${role.padEnd(8)}` : '⚠️ unmatched'}  ${p.material || '(none)'}  [${p.mesh}]`);
+  });
+  const foundRoles = new Set([...geometry.roles.values()].filter(Boolean));
+  const missingRoles = mapping.expectedRoles.filter(role => !foundRoles.has(role));
+  if ([...geometry.roles.values()].some(role => role === null)) {
+    warnings.push('Some materials match no role rule; add a materialMapping to the catalog entry');
+  }
+  if (missingRoles.length > 0) {
+    warnings.push(`Expected roles with no material: ${missingRoles.join(', ')}`);
+  }
+
+  console.log(`\n🦴 Skeleton: ${model.bones.length} bones`);
+  model.bones.forEach(bone => console.log(`   ${bone.name}${bone.parent ? ` ← ${bone.parent}` : ''}`));
+
+  console.log(`\n🔺 Triangles: ${model.triangles} in ${model.primitives.length} primitives`);
+
+  // ===== Catalog entry =====
+  const lensWidthMm = parseNumber(values['lens-width'], 'lens-width')
+    ?? (geometry.lensWidthUnits !== null ? geometry.lensWidthUnits * mmPerUnit : undefined);
+  const bridgeWidthMm = parseNumber(values['bridge-width'], 'bridge-width')
+    ?? (geometry.bridgeWidthUnits ? geometry.bridgeWidthUnits * mmPerUnit : undefined);
+  const templeLengthMm = parseNumber(values['temple-length'], 'temple-length')
+    ?? (geometry.templeLengthUnits !== null ? geometry.templeLengthUnits * mmPerUnit : undefined);
+  if (!lensWidthMm || !bridgeWidthMm || !templeLengthMm) {
+    fail('Could not measure lens, bridge and temple sizes; pass --lens-width, --bridge-width and --temple-length');
+  }
+
+  // Place the bridge where a hand-tuned reference frame puts its bridge
+  const reference = findReference(catalog, publicDir, values.reference, existing);
+  if (reference) {
+    console.log(`\n📐 Placement calibrated against "${reference.id}"`);
+  } else {
+    warnings.push(values.reference
+      ? `Reference frame "${values.reference}" not found or its model is missing; placement assumes anchor units are metres`
+      : 'No reference frame found; placement assumes anchor units are metres');
+  }
+  const { settings: defaultSettings, clamped } = suggestSettings(geometry, frameWidthMm, reference);
+  if (clamped.length > 0) {
+    warnings.push(`Suggested ${clamped.join(', ')} fell outside the slider ranges and were clamped; check the model's origin and orientation`);
+  }
+
+  // Update an existing entry in place, keeping hand-written fields (variants, mapping, rig, ...)
+  const entry: any = {
+    ...existing,
+    id,
+    name: values.name ?? existing?.name ?? id,
+    model: modelPath,
+    lensWidthMm: round(lensWidthMm, 1),
+    bridgeWidthMm: round(bridgeWidthMm, 1),
+    templeLengthMm: round(templeLengthMm, 1),
+    frameWidthMm: round(frameWidthMm, 1),
+    defaultSettings
+  };
+  if (!existing?.materialMapping && mapping !== DEFAULT_MATERIAL_MAPPING) entry.materialMapping = mapping;
+
+  if (warnings.length > 0) {
+    console.log('\n⚠️  Warnings');
+    warnings.forEach(warning => console.log(`   - ${warning}`));
+  }
+
+  if (values.write) {
+    if (!plausible) {
+      fail(`Not writing "${id}": a front width of ${frameWidthMm.toFixed(0)} mm is implausible; pass --frame-width`);
+    }
+    const index = catalog.frames.findIndex((f: any) => f.id === id);
+    if (index >= 0) {
+      catalog.frames[index] = entry;
+    } else {
+      catalog.frames.push(entry);
+    }
+    writeFileSync(catalogPath, `${JSON.stringify(catalog, null, 2)}\n`);
+    console.log(`\n✅ ${index >= 0 ? 'Updated' : 'Added'} "${id}" in ${catalogPath}`);
+  } else {
+    console.log('\n📝 Catalog entry');
+    console.log(JSON.stringify(entry, null, 2));
+  }
+}
+
+// Only when run as a script, so tests can import the helpers
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
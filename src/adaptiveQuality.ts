@@ -0,0 +1,227 @@
+// src/adaptiveQuality.ts - Lower rendering quality while the frame rate can't keep up
+
+/**
+ * One rung of the quality ladder. Lights are kept in scene order, so the
+ * ambient and key lights declared first in index.html go last.
+ */
+export interface QualityLevel {
+  name: string;
+  pixelRatio: number;           // Upper bound; never above the device's ratio
+  antialias: boolean;
+  lights: number;
+}
+
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { name: 'high', pixelRatio: 2, antialias: true, lights: 4 },
+  { name: 'medium', pixelRatio: 1.5, antialias: true, lights: 3 },
+  { name: 'low', pixelRatio: 1, antialias: false, lights: 2 },
+  { name: 'minimal', pixelRatio: 0.75, antialias: false, lights: 1 }
+];
+
+export interface AdaptiveQualityOptions {
+  enabled: boolean;
+  targetFps: number;            // Step down when FPS stays under this
+  restoreFps: number;           // Step back up when FPS stays at or above this
+  degradeAfter: number;         // ms under the target before stepping down
+  restoreAfter: number;         // ms of headroom before stepping up (doubles after each failed restore)
+}
+
+export const DEFAULT_ADAPTIVE_QUALITY: AdaptiveQualityOptions = {
+  enabled: true,
+  targetFps: 24,
+  restoreFps: 45,
+  degradeAfter: 3000,
+  restoreAfter: 10000
+};
+
+const STORAGE_KEY = 'mindar-glasses-quality';
+const MAX_BACKOFF = 4;          // restoreAfter × 2^4 at most
+
+/**
+ * Antialiasing is fixed when the WebGL context is created, so a change is
+ * saved and applied on the next load. Call before the scene initializes.
+ */
+export function applyStoredAntialias(sceneEl: Element) {
+  let antialias: unknown;
+  try {
+    antialias = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}').antialias;
+  } catch {
+    return;
+  }
+  if (typeof antialias !== 'boolean') return;
+
+  // Edit the raw attribute: A-Frame reads it when the renderer system starts.
+  // Properties may be separated by ';' or ',' (index.html uses commas).
+  const renderer = sceneEl.getAttribute('renderer') ?? '';
+  const separator = renderer.includes(';') || !renderer.includes(',') ? '; ' : ', ';
+  const updated = /antialias\s*:/.test(renderer)
+    ? renderer.replace(/antialias\s*:\s*[^;,]*/, `antialias: ${antialias}`)
+    : `${renderer}${renderer.trim() ? separator : ''}antialias: ${antialias}`;
+  HTMLElement.prototype.setAttribute.call(sceneEl, 'renderer', updated);
+}
+
+/**
+ * Steps down the quality ladder when FPS stays below the target and back up
+ * when there's headroom. A level that had to be abandoned right after a
+ * restore waits twice as long before the next attempt.
+ */
+export class AdaptiveQuality {
+  private sceneEl: any = null;
+  private options: AdaptiveQualityOptions;
+  private levelIndex: number = 0;
+  private lowSince: number | null = null;
+  private highSince: number | null = null;
+  private lastRestore: number | null = null;
+  private backoff: number = 0;
+  private antialiasCleared: boolean = false;
+  private onChange: (level: QualityLevel) => void;
+
+  /**
+   * @param onChange - Called after each level change
+   */
+  constructor(options: Partial<AdaptiveQualityOptions> = {}, onChange: (level: QualityLevel) => void = () => {}) {
+    this.options = { ...DEFAULT_ADAPTIVE_QUALITY, ...options };
+    this.onChange = onChange;
+  }
+
+  /**
+   * Control the renderer and lights of a loaded `<a-scene>`
+   */
+  attach(sceneEl: any) {
+    this.sceneEl = sceneEl;
+    if (this.levelIndex > 0) {
+      this.apply();
+    }
+  }
+
+  /**
+   * Restore full quality on the scene and let go of it
+   */
+  detach() {
+    this.levelIndex = 0;
+    this.lowSince = null;
+    this.highSince = null;
+    this.apply();
+    this.sceneEl = null;
+  }
+
+  getOptions(): AdaptiveQualityOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Disabling returns to full quality
+   */
+  setOptions(options: Partial<AdaptiveQualityOptions>) {
+    this.options = { ...this.options, ...options };
+    this.lowSince = null;
+    this.highSince = null;
+    if (!this.options.enabled) {
+      this.backoff = 0;
+      this.setLevel(0);
+    }
+  }
+
+  getLevel(): QualityLevel {
+    return { ...QUALITY_LEVELS[this.levelIndex] };
+  }
+
+  /**
+   * Feed the current frame rate; call about once a second
+   */
+  update(fps: number, now: number = performance.now()) {
+    if (fps >= this.options.targetFps && QUALITY_LEVELS[this.levelIndex].antialias) {
+      this.clearStoredAntialias();
+    }
+    if (!this.options.enabled) return;
+
+    if (fps < this.options.targetFps) {
+      this.highSince = null;
+      this.lowSince ??= now;
+      if (now - this.lowSince >= this.options.degradeAfter && this.levelIndex < QUALITY_LEVELS.length - 1) {
+        // Give up on a restore that immediately made things worse, and wait longer next time
+        if (this.lastRestore !== null && now - this.lastRestore < this.getRestoreDelay()) {
+          this.backoff = Math.min(MAX_BACKOFF, this.backoff + 1);
+        }
+        this.lastRestore = null;
+        this.setLevel(this.levelIndex + 1);
+      }
+    } else if (fps >= this.options.restoreFps) {
+      this.lowSince = null;
+      this.highSince ??= now;
+      if (now - this.highSince >= this.getRestoreDelay() && this.levelIndex > 0) {
+        this.lastRestore = now;
+        this.setLevel(this.levelIndex - 1);
+      }
+    } else {
+      this.lowSince = null;
+      this.highSince = null;
+    }
+  }
+
+  private getRestoreDelay(): number {
+    return this.options.restoreAfter * Math.pow(2, this.backoff);
+  }
+
+  private setLevel(index: number) {
+    const previous = QUALITY_LEVELS[this.levelIndex];
+    const changed = index !== this.levelIndex;
+    this.levelIndex = index;
+    this.lowSince = null;
+    this.highSince = null;
+    this.apply();
+    if (changed) {
+      const level = this.getLevel();
+      if (level.antialias !== previous.antialias) {
+        this.storeAntialias(level.antialias);
+      }
+      console.log(`🎚️ Rendering quality: ${level.name}`);
+      this.onChange(level);
+    }
+  }
+
+  /**
+   * Apply the current level to the renderer and lights
+   */
+  apply() {
+    const level = QUALITY_LEVELS[this.levelIndex];
+    const renderer = this.sceneEl?.renderer;
+    if (renderer) {
+      const pixelRatio = Math.min(window.devicePixelRatio || 1, level.pixelRatio);
+      if (renderer.getPixelRatio() !== pixelRatio) {
+        renderer.setPixelRatio(pixelRatio);
+      }
+    }
+
+    // Hidden lights don't contribute; three.js recompiles materials once per change
+    const lights: any[] = Array.from(this.sceneEl?.querySelectorAll('a-light, [light]') ?? []);
+    lights.forEach((light, i) => {
+      if (light.object3D) light.object3D.visible = i < level.lights;
+    });
+  }
+
+  /**
+   * Remember antialiasing for the next load (see applyStoredAntialias)
+   */
+  private storeAntialias(antialias: boolean) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ antialias }));
+    } catch {
+      // Storage unavailable; keep the current context's setting
+    }
+  }
+
+  /**
+   * A level with antialiasing keeps up, so the next load goes back to the
+   * scene's own setting instead of a saved `false` from an earlier slow patch
+   */
+  private clearStoredAntialias() {
+    if (this.antialiasCleared) return;
+    this.antialiasCleared = true;
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // Storage unavailable; nothing was saved
+    }
+  }
+}
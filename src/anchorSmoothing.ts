@@ -0,0 +1,122 @@
+// src/anchorSmoothing.ts - One Euro smoothing of the MindAR anchor transform
+
+import { Quaternion, Vector3 } from 'three';
+import { OneEuroFilter, type OneEuroOptions } from './filters.ts';
+
+export const DEFAULT_ANCHOR_SMOOTHING: OneEuroOptions = {
+  minCutoff: 1.0,
+  beta: 1.0,
+  dCutoff: 1.0
+};
+
+/**
+ * Filters a 4x4 transform: position per axis and rotation per quaternion
+ * component (re-normalized), scale is passed through
+ */
+export class TransformFilter {
+  private options: OneEuroOptions;
+  private position: OneEuroFilter[] = [];
+  private rotation: OneEuroFilter[] = [];
+  private lastQuaternion: Quaternion | null = null;
+  private tmpPosition = new Vector3();
+  private tmpQuaternion = new Quaternion();
+  private tmpScale = new Vector3();
+
+  constructor(options: OneEuroOptions = DEFAULT_ANCHOR_SMOOTHING) {
+    this.options = options;
+    this.reset();
+  }
+
+  /**
+   * Filter a matrix in place
+   * @param matrix - A THREE.Matrix4 (any THREE instance)
+   */
+  filter(matrix: any, timestampMs: number) {
+    matrix.decompose(this.tmpPosition, this.tmpQuaternion, this.tmpScale);
+
+    // Keep quaternions in the same hemisphere so components filter smoothly
+    if (this.lastQuaternion && this.lastQuaternion.dot(this.tmpQuaternion) < 0) {
+      this.tmpQuaternion.set(-this.tmpQuaternion.x, -this.tmpQuaternion.y, -this.tmpQuaternion.z, -this.tmpQuaternion.w);
+    }
+
+    this.tmpPosition.set(
+      this.position[0].filter(this.tmpPosition.x, timestampMs),
+      this.position[1].filter(this.tmpPosition.y, timestampMs),
+      this.position[2].filter(this.tmpPosition.z, timestampMs)
+    );
+    this.tmpQuaternion.set(
+      this.rotation[0].filter(this.tmpQuaternion.x, timestampMs),
+      this.rotation[1].filter(this.tmpQuaternion.y, timestampMs),
+      this.rotation[2].filter(this.tmpQuaternion.z, timestampMs),
+      this.rotation[3].filter(this.tmpQuaternion.w, timestampMs)
+    ).normalize();
+
+    this.lastQuaternion = (this.lastQuaternion ?? new Quaternion()).copy(this.tmpQuaternion);
+    matrix.compose(this.tmpPosition, this.tmpQuaternion, this.tmpScale);
+  }
+
+  setOptions(options: Partial<OneEuroOptions>) {
+    this.options = { ...this.options, ...options };
+    this.reset();
+  }
+
+  reset() {
+    this.position = [0, 1, 2].map(() => new OneEuroFilter(this.options));
+    this.rotation = [0, 1, 2, 3].map(() => new OneEuroFilter(this.options));
+    this.lastQuaternion = null;
+  }
+}
+
+/**
+ * Register the `smooth-anchor` A-Frame component.
+ * Add it next to `mindar-face-target` to filter the anchor's matrix before rendering.
+ */
+export function registerAnchorSmoothing() {
+  const AFRAME = (window as any).AFRAME;
+  if (!AFRAME || AFRAME.components['smooth-anchor']) {
+    return;
+  }
+
+  AFRAME.registerComponent('smooth-anchor', {
+    schema: {
+      enabled: { type: 'boolean', default: true },
+      minCutoff: { type: 'number', default: DEFAULT_ANCHOR_SMOOTHING.minCutoff },
+      beta: { type: 'number', default: DEFAULT_ANCHOR_SMOOTHING.beta },
+      dCutoff: { type: 'number', default: DEFAULT_ANCHOR_SMOOTHING.dCutoff }
+    },
+
+    init(this: any) {
+      this.transformFilter = new TransformFilter({ ...DEFAULT_ANCHOR_SMOOTHING });
+      this.lastOutput = null;
+    },
+
+    update(this: any) {
+      this.transformFilter.setOptions({
+        minCutoff: this.data.minCutoff,
+        beta: this.data.beta,
+        dCutoff: this.data.dCutoff
+      });
+      this.lastOutput = null;
+    },
+
+    tick(this: any, time: number) {
+      const object3D = this.el.object3D;
+      if (!this.data.enabled || !object3D.visible) {
+        this.transformFilter.reset();
+        this.lastOutput = null;
+        return;
+      }
+
+      // MindAR writes the matrix only when a new tracking result arrives;
+      // skip frames where it still holds our previous output
+      if (this.lastOutput && object3D.matrix.equals(this.lastOutput)) {
+        return;
+      }
+
+      this.transformFilter.filter(object3D.matrix, time);
+      this.lastOutput = (this.lastOutput ?? object3D.matrix.clone()).copy(object3D.matrix);
+      object3D.matrixWorldNeedsUpdate = true;
+    }
+  });
+  console.log('🧈 Anchor smoothing component registered');
+}
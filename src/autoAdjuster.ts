@@ -2,6 +2,8 @@
 
 import type { FaceMeasurements } from './faceMeasurement.ts';
 import { FaceMeasurementSystem } from './faceMeasurement.ts';
+import { systemClock, type Clock } from './clock.ts';
+import type { Unsubscribe } from './eventEmitter.ts';
 
 export interface AdjustmentSettings {
   scale: number;
@@ -13,6 +15,33 @@ export interface AdjustmentSettings {
   rotZ: number;
 }
 
+/**
+ * Largest automatic rotation per axis (degrees), relative to the base rotation
+ */
+export interface RotationLimits {
+  maxTilt: number;              // rotX, pantoscopic tilt
+  maxWrap: number;              // rotY, wrap correction
+  maxRoll: number;              // rotZ, roll correction
+}
+
+export const DEFAULT_ROTATION_LIMITS: RotationLimits = {
+  maxTilt: 12,
+  maxWrap: 8,
+  maxRoll: 6
+};
+
+/**
+ * Settings that shape the adjustments, for recording and replaying sessions
+ */
+export interface AutoAdjusterState {
+  autoScale: boolean;
+  baseScale: number;
+  autoRotate: boolean;
+  baseRotation: { rotX: number; rotY: number; rotZ: number };
+  rotationLimits: RotationLimits;
+  templeRigActive: boolean;
+}
+
 export class AutoAdjuster {
   private measurementSystem: FaceMeasurementSystem;
   private baseScale: number = 1.0;
@@ -21,22 +50,43 @@ export class AutoAdjuster {
   private updateInterval: number = 2000; // Update every 2 seconds
   private intervalId?: number;
   private adjustScaleAutomatically: boolean = false; // Control whether scale is auto-adjusted
+  private templeRigActive: boolean = false; // Temples absorb face width, so the front keeps its size
+  private adjustRotationAutomatically: boolean = false; // Control whether rotation is auto-adjusted
+  private baseRotation = { rotX: 0, rotY: 0, rotZ: 0 };
+  private rotationLimits: RotationLimits = { ...DEFAULT_ROTATION_LIMITS };
+  private clock: Clock;
+  private measurementUnsubscribe: Unsubscribe | null = null;
+  private timingCallback: ((ms: number) => void) | null = null;
 
   // Reference measurements (average adult face)
   private readonly REFERENCE_FACE_WIDTH = 0.14; // ~14cm in MindAR units
-  private readonly REFERENCE_EYE_DISTANCE = 0.063; // ~6.3cm
+  private readonly REFERENCE_EYE_DISTANCE = 0.063; // ~6.3cm pupillary distance
+  private readonly REFERENCE_NOSE_WIDTH = 0.031; // ~3.1cm between the inner eye corners
+
+  // Reference measurements in millimeters, used once the face is calibrated
+  private readonly REFERENCE_FACE_WIDTH_MM = 140;
+  private readonly REFERENCE_EYE_DISTANCE_MM = 63;
+  private readonly REFERENCE_NOSE_WIDTH_MM = 31;
+
+  // Profile tilt of the average face; frames are modelled for it
+  private readonly REFERENCE_PROFILE_TILT = 0;
   
-  constructor(measurementSystem: FaceMeasurementSystem) {
+  constructor(measurementSystem: FaceMeasurementSystem, clock: Clock = systemClock) {
     this.measurementSystem = measurementSystem;
+    this.clock = clock;
     console.log('🤖 Auto Adjuster initialized');
   }
 
   /**
    * Connect to measurement system for real-time updates
-   * This enables automatic adjustments whenever measurements change
+   * This enables automatic adjustments whenever measurements change.
+   * Safe to call repeatedly; only one subscription is kept.
    */
   connectToMeasurementSystem() {
-    this.measurementSystem.onMeasurementUpdate(() => {
+    if (this.measurementUnsubscribe) {
+      return;
+    }
+    this.measurementUnsubscribe = this.measurementSystem.onMeasurementUpdate(() => {
       // When new measurements arrive and auto-adjust is enabled,
       // trigger an immediate adjustment update
       if (this.isAutoAdjustEnabled) {
@@ -57,7 +107,10 @@ export class AutoAdjuster {
     this.connectToMeasurementSystem();
     
     // Also keep periodic updates as fallback (every 2 seconds)
-    this.intervalId = window.setInterval(() => {
+    if (this.intervalId) {
+      this.clock.clearInterval(this.intervalId);
+    }
+    this.intervalId = this.clock.setInterval(() => {
       this.updateAdjustments();
     }, this.updateInterval);
 
@@ -70,26 +123,65 @@ export class AutoAdjuster {
   disable() {
     this.isAutoAdjustEnabled = false;
     if (this.intervalId) {
-      clearInterval(this.intervalId);
+      this.clock.clearInterval(this.intervalId);
       this.intervalId = undefined;
     }
     console.log('⏸️ Auto-adjustment disabled');
   }
 
+  /**
+   * Disable and disconnect from the measurement system
+   */
+  dispose() {
+    this.disable();
+    this.measurementUnsubscribe?.();
+    this.measurementUnsubscribe = null;
+  }
+
+  /**
+   * Get measurements relative to the average adult face (1.0 = average).
+   * Uses millimeters when calibrated, otherwise the unitless reference constants.
+   */
+  private getRatios(measurements: FaceMeasurements): {
+    width: number;
+    eye: number;
+    nose: number;
+    height: number;
+  } {
+    if (measurements.metric) {
+      const m = measurements.metric;
+      return {
+        width: m.faceWidthMm / this.REFERENCE_FACE_WIDTH_MM,
+        eye: m.eyeDistanceMm / this.REFERENCE_EYE_DISTANCE_MM,
+        nose: m.noseWidthMm / this.REFERENCE_NOSE_WIDTH_MM,
+        height: m.faceHeightMm / (this.REFERENCE_FACE_WIDTH_MM * 1.3)
+      };
+    }
+
+    return {
+      width: measurements.faceWidth / this.REFERENCE_FACE_WIDTH,
+      eye: measurements.eyeDistance / this.REFERENCE_EYE_DISTANCE,
+      nose: measurements.noseWidth / this.REFERENCE_NOSE_WIDTH,
+      height: measurements.faceHeight / (this.REFERENCE_FACE_WIDTH * 1.3)
+    };
+  }
+
   /**
    * Calculate optimal glasses scale based on face measurements
    */
   private calculateScale(measurements: FaceMeasurements): number {
-    // Only calculate scale if auto-scale is enabled
-    if (!this.adjustScaleAutomatically) {
+    // Only calculate scale if auto-scale is enabled and the temples can't bend
+    if (!this.adjustScaleAutomatically || this.templeRigActive) {
       return this.baseScale; // Return base scale without adjustment
     }
     
+    const ratios = this.getRatios(measurements);
+
     // Calculate scale based on face width (primary factor)
-    const widthRatio = measurements.faceWidth / this.REFERENCE_FACE_WIDTH;
+    const widthRatio = ratios.width;
     
     // Calculate scale based on eye distance (secondary factor)
-    const eyeRatio = measurements.eyeDistance / this.REFERENCE_EYE_DISTANCE;
+    const eyeRatio = ratios.eye;
     
     // Weighted average (70% face width, 30% eye distance)
     const scale = (widthRatio * 0.7 + eyeRatio * 0.3) * this.baseScale;
@@ -106,12 +198,14 @@ export class AutoAdjuster {
     posY: number;
     posZ: number;
   } {
+    const ratios = this.getRatios(measurements);
+
     // Fine-tune vertical position based on face height ratio
-    const heightRatio = measurements.faceHeight / (this.REFERENCE_FACE_WIDTH * 1.3);
+    const heightRatio = ratios.height;
     const posY = (heightRatio - 1.0) * 0.02; // Small adjustment
     
     // Adjust depth based on nose width (wider nose = push glasses forward)
-    const noseRatio = measurements.noseWidth / (this.REFERENCE_FACE_WIDTH * 0.2);
+    const noseRatio = ratios.nose;
     const posZ = -0.05 + (noseRatio - 1.0) * 0.01;
     
     return {
@@ -121,6 +215,30 @@ export class AutoAdjuster {
     };
   }
 
+  /**
+   * Calculate rotation from facial feature angles:
+   * pantoscopic tilt follows the forehead-chin profile, roll follows the
+   * eye line and wrap follows the temple line
+   */
+  private calculateRotation(measurements: FaceMeasurements): {
+    rotX: number;
+    rotY: number;
+    rotZ: number;
+  } {
+    const orientation = measurements.orientation;
+    if (!this.adjustRotationAutomatically || !orientation) {
+      return { ...this.baseRotation };
+    }
+
+    const clamp = (value: number, max: number) => Math.max(-max, Math.min(max, value));
+    const limits = this.rotationLimits;
+    return {
+      rotX: this.baseRotation.rotX + clamp(orientation.profileTilt - this.REFERENCE_PROFILE_TILT, limits.maxTilt),
+      rotY: this.baseRotation.rotY + clamp(-orientation.templeYaw, limits.maxWrap),
+      rotZ: this.baseRotation.rotZ + clamp(orientation.eyeLineRoll, limits.maxRoll)
+    };
+  }
+
   /**
    * Update adjustments based on current face measurements
    */
@@ -128,6 +246,7 @@ export class AutoAdjuster {
     if (!this.isAutoAdjustEnabled || !this.adjustmentCallback) {
       return;
     }
+    const start = performance.now();
 
     // Get average measurements for stability
     const measurements = this.measurementSystem.getAverageMeasurements();
@@ -146,13 +265,12 @@ export class AutoAdjuster {
     // Calculate adjustments
     const scale = this.calculateScale(measurements);
     const position = this.calculatePositionAdjustments(measurements);
+    const rotation = this.calculateRotation(measurements);
 
     const settings: AdjustmentSettings = {
       scale,
       ...position,
-      rotX: 0,
-      rotY: 0,
-      rotZ: 0
+      ...rotation
     };
 
     console.log('🎯 Auto-adjustment applied:', {
@@ -162,6 +280,14 @@ export class AutoAdjuster {
 
     // Apply adjustments via callback
     this.adjustmentCallback(settings);
+    this.timingCallback?.(performance.now() - start);
+  }
+
+  /**
+   * Report how long each applied update takes (ms), including the callback
+   */
+  setTimingCallback(callback: ((ms: number) => void) | null) {
+    this.timingCallback = callback;
   }
 
   /**
@@ -189,6 +315,46 @@ export class AutoAdjuster {
     console.log(this.adjustScaleAutomatically ? '🎯 Auto-scale enabled' : '🔒 Auto-scale disabled (position only)');
   }
 
+  /**
+   * Set whether a temple rig fits the face width instead of uniform scaling.
+   * While active, the scale stays at the base scale (the frame's true size).
+   */
+  setTempleRigActive(active: boolean) {
+    this.templeRigActive = active;
+  }
+
+  /**
+   * Set whether rotation should be automatically adjusted
+   * @param enabled - If true, tilt, wrap and roll follow the face's features
+   *                  If false, the base rotation is returned (default: false)
+   */
+  setAutoRotationEnabled(enabled: boolean) {
+    this.adjustRotationAutomatically = enabled;
+    console.log(this.adjustRotationAutomatically ? '🎯 Auto-rotation enabled' : '🔒 Auto-rotation disabled');
+  }
+
+  isAutoRotationEnabled(): boolean {
+    return this.adjustRotationAutomatically;
+  }
+
+  /**
+   * Set the rotation automatic corrections are added to (the frame's default rotation)
+   */
+  setBaseRotation(rotation: { rotX: number; rotY: number; rotZ: number }) {
+    this.baseRotation = { rotX: rotation.rotX, rotY: rotation.rotY, rotZ: rotation.rotZ };
+  }
+
+  /**
+   * Clamp automatic rotation per axis (degrees)
+   */
+  setRotationLimits(limits: Partial<RotationLimits>) {
+    this.rotationLimits = { ...this.rotationLimits, ...limits };
+  }
+
+  getRotationLimits(): RotationLimits {
+    return { ...this.rotationLimits };
+  }
+
   /**
    * Get whether auto-scale is currently enabled
    */
@@ -196,6 +362,29 @@ export class AutoAdjuster {
     return this.adjustScaleAutomatically;
   }
 
+  getState(): AutoAdjusterState {
+    return {
+      autoScale: this.adjustScaleAutomatically,
+      baseScale: this.baseScale,
+      autoRotate: this.adjustRotationAutomatically,
+      baseRotation: { ...this.baseRotation },
+      rotationLimits: { ...this.rotationLimits },
+      templeRigActive: this.templeRigActive
+    };
+  }
+
+  /**
+   * Continue with the settings of a getState() snapshot
+   */
+  restoreState(state: AutoAdjusterState) {
+    this.adjustScaleAutomatically = state.autoScale;
+    this.baseScale = state.baseScale;
+    this.adjustRotationAutomatically = state.autoRotate;
+    this.baseRotation = { ...state.baseRotation };
+    this.rotationLimits = { ...state.rotationLimits };
+    this.templeRigActive = state.templeRigActive;
+  }
+
   /**
    * Get current auto-adjust status
    */
@@ -215,13 +404,12 @@ export class AutoAdjuster {
 
     const scale = this.calculateScale(measurements);
     const position = this.calculatePositionAdjustments(measurements);
+    const rotation = this.calculateRotation(measurements);
 
     return {
       scale,
       ...position,
-      rotX: 0,
-      rotY: 0,
-      rotZ: 0
+      ...rotation
     };
   }
 }
@@ -0,0 +1,103 @@
+// src/bridgeProtocol.ts - Versioned postMessage protocol between a host page and the try-on iframe
+
+import type { FaceMeasurements } from './faceMeasurement.ts';
+import type { AdjustmentSettings } from './autoAdjuster.ts';
+import type { GlassesSettings } from './settings.ts';
+import type { FrameCatalogEntry } from './catalog.ts';
+import type { FaceShapeResult } from './faceShape.ts';
+import type { RecommendationResult } from './recommendation.ts';
+import type { SettingsChangeSource } from './tryOnController.ts';
+import type { SnapshotOptions } from './snapshot.ts';
+import type { MaterialMappingReport } from './materialMapping.ts';
+
+export type { SnapshotOptions };
+
+export const BRIDGE_PROTOCOL = 'glasses-tryon';
+export const BRIDGE_VERSION = 1;
+
+/**
+ * Callable methods: params sent by the host and the result returned.
+ * The page starts the measurement and adjustment pipeline itself when the
+ * scene loads, so the old `initializeAutoAdjustmentPipeline` global has no
+ * counterpart here.
+ */
+export interface BridgeMethods {
+  ping: { params: void; result: { version: number } };
+  selectFrame: { params: { id: string }; result: FrameCatalogEntry };
+  getCurrentFrame: { params: void; result: FrameCatalogEntry | null };
+  applySettings: { params: Partial<GlassesSettings>; result: GlassesSettings };
+  getSettings: { params: void; result: GlassesSettings };
+  getMeasurements: { params: void; result: FaceMeasurements | null };
+  getRecommendedSettings: { params: void; result: AdjustmentSettings | null };
+  getFaceShape: { params: void; result: FaceShapeResult | null };
+  recommendFrames: { params: void; result: RecommendationResult | null };
+  enableAutoAdjust: { params: void; result: void };
+  disableAutoAdjust: { params: void; result: void };
+  setAutoScaleEnabled: { params: { enabled: boolean }; result: void };
+  isAutoScaleEnabled: { params: void; result: boolean };
+  setAutoRotationEnabled: { params: { enabled: boolean }; result: void };
+  isAutoRotationEnabled: { params: void; result: boolean };
+  snapshot: { params: SnapshotOptions; result: Blob };
+  subscribe: { params: { events: BridgeEventName[] }; result: BridgeEventName[] };
+  unsubscribe: { params: { events: BridgeEventName[] }; result: BridgeEventName[] };
+}
+
+export type BridgeMethod = keyof BridgeMethods;
+
+/**
+ * Events forwarded to subscribed hosts. Payloads must survive structured cloning.
+ */
+export interface BridgeEvents {
+  ready: { version: number };
+  faceFound: { timestamp: number };
+  faceLost: { timestamp: number };
+  measurement: FaceMeasurements;
+  adjustment: AdjustmentSettings;
+  modelLoaded: { frame: FrameCatalogEntry | null; report: MaterialMappingReport };
+  settingsChanged: { settings: GlassesSettings; source: SettingsChangeSource };
+}
+
+export type BridgeEventName = keyof BridgeEvents;
+
+interface BridgeEnvelope {
+  protocol: typeof BRIDGE_PROTOCOL;
+  version: number;
+}
+
+export interface BridgeRequest<M extends BridgeMethod = BridgeMethod> extends BridgeEnvelope {
+  kind: 'request';
+  id: string;                   // Correlation ID echoed in the response
+  method: M;
+  params: BridgeMethods[M]['params'];
+}
+
+export interface BridgeResponse<M extends BridgeMethod = BridgeMethod> extends BridgeEnvelope {
+  kind: 'response';
+  id: string;
+  ok: boolean;
+  result?: BridgeMethods[M]['result'];
+  error?: string;
+}
+
+export interface BridgeEventMessage<E extends BridgeEventName = BridgeEventName> extends BridgeEnvelope {
+  kind: 'event';
+  event: E;
+  payload: BridgeEvents[E];
+}
+
+export type BridgeMessage = BridgeRequest | BridgeResponse | BridgeEventMessage;
+
+/**
+ * Check that a message event carries this protocol (any version)
+ */
+export function isBridgeMessage(data: unknown): data is BridgeMessage {
+  return !!data
+    && typeof data === 'object'
+    && (data as any).protocol === BRIDGE_PROTOCOL
+    && typeof (data as any).version === 'number'
+    && ['request', 'response', 'event'].includes((data as any).kind);
+}
+
+export function createMessageId(): string {
+  return `msg-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
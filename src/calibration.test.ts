@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CalibrationSystem, CREDIT_CARD_WIDTH_MM, IRIS_DIAMETER_MM } from './calibration.ts';
+import type { LandmarkPoint } from './faceMeasurement.ts';
+
+function mesh(size: number, irisDiameter = 0): LandmarkPoint[] {
+  const landmarks = Array.from({ length: size }, () => ({ x: 0, y: 0, z: 0 }));
+  if (size >= 478) {
+    landmarks[471] = { x: irisDiameter, y: 0, z: 0 };
+    landmarks[476] = { x: irisDiameter, y: 0, z: 0 };
+  }
+  return landmarks;
+}
+
+const RAW = { faceWidth: 0.15, eyeDistance: 0.063, noseWidth: 0.031, faceHeight: 0.19 };
+
+describe('CalibrationSystem', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('scales by the 85.6 mm card width when the mesh has no iris', () => {
+    const calibration = new CalibrationSystem();
+    calibration.calibrateWithCreditCard(0.0856);
+
+    const frame = calibration.calibrateFrame(mesh(468), 1000);
+    expect(frame?.method).toBe('credit-card');
+    expect(frame?.mmPerUnit).toBeCloseTo(CREDIT_CARD_WIDTH_MM / 0.0856, 9);
+    expect(frame?.errorPercent).toBe(3);
+
+    const metric = calibration.toMetric(RAW, frame!);
+    expect(metric.faceWidthMm).toBeCloseTo(150, 9);
+    expect(metric.eyeDistanceMm).toBeCloseTo(63, 9);
+    expect(metric.method).toBe('credit-card');
+    expect(metric.errorPercent).toBe(3);
+  });
+
+  it('prefers the iris when the frame has iris landmarks', () => {
+    const calibration = new CalibrationSystem();
+    calibration.calibrateWithCreditCard(0.1, 5);
+
+    const frame = calibration.calibrateFrame(mesh(478, 0.0117));
+    expect(frame?.method).toBe('iris');
+    expect(frame?.mmPerUnit).toBeCloseTo(IRIS_DIAMETER_MM / 0.0117, 9);
+    expect(calibration.calibrateFrame(mesh(468))?.method).toBe('credit-card');
+  });
+
+  it('ignores an invalid card width', () => {
+    const calibration = new CalibrationSystem();
+    expect(calibration.calibrateWithCreditCard(0)).toBeNull();
+    expect(calibration.calibrateFrame(mesh(468))).toBeNull();
+    expect(calibration.isCalibrated()).toBe(false);
+  });
+
+  it('keeps the card calibration across a state restore', () => {
+    const calibration = new CalibrationSystem();
+    calibration.calibrateWithCreditCard(0.0856, 4);
+
+    const restored = new CalibrationSystem();
+    restored.restore(calibration.getState());
+    expect(restored.calibrateFrame(mesh(468))).toEqual(calibration.calibrateFrame(mesh(468)));
+
+    restored.reset();
+    expect(restored.isCalibrated()).toBe(false);
+  });
+});
@@ -0,0 +1,180 @@
+// src/calibration.ts - Metric calibration (landmark units → millimeters)
+
+import type { LandmarkPoint } from './faceMeasurement.ts';
+
+export type CalibrationMethod = 'iris' | 'credit-card';
+
+export interface Calibration {
+  method: CalibrationMethod;
+  mmPerUnit: number;        // Millimeters per landmark unit
+  errorPercent: number;     // ± relative error bound (0-100)
+  timestamp: number;        // When the calibration was measured
+}
+
+/**
+ * Everything a CalibrationSystem remembers (session replay)
+ */
+export interface CalibrationState {
+  latest: Calibration | null;   // Latest frame's iris calibration
+  card: Calibration | null;     // Credit-card reference, used when a frame has no iris
+}
+
+/**
+ * Millimeter values attached to a FaceMeasurements record
+ */
+export interface MetricMeasurements {
+  faceWidthMm: number;
+  eyeDistanceMm: number;
+  noseWidthMm: number;
+  faceHeightMm: number;
+  method: CalibrationMethod;
+  errorPercent: number;
+}
+
+/**
+ * MediaPipe iris landmarks (only present with refined / 478-point meshes):
+ * 468: Left iris center, 469-472: left iris ring (469/471 horizontal)
+ * 473: Right iris center, 474-477: right iris ring (474/476 horizontal)
+ */
+const LEFT_IRIS_HORIZONTAL: [number, number] = [469, 471];
+const RIGHT_IRIS_HORIZONTAL: [number, number] = [474, 476];
+
+// Average adult horizontal visible iris diameter and its population spread
+export const IRIS_DIAMETER_MM = 11.7;
+const IRIS_DIAMETER_SPREAD_MM = 0.5;
+
+// ISO/IEC 7810 ID-1 card width
+export const CREDIT_CARD_WIDTH_MM = 85.6;
+const CREDIT_CARD_DEFAULT_ERROR_PERCENT = 3;
+
+/**
+ * Derives the landmark scale from the iris in every frame. Pixel-space
+ * landmarks (MediaPipe) change scale with the distance to the camera, so a
+ * scale is only valid for the frame it was measured in.
+ *
+ * Without iris landmarks (MindAR's mesh) a credit card held flat against the
+ * forehead is the fallback. Its scale is fixed, so it suits landmark spaces
+ * that don't change with the distance to the camera, like MindAR's face space.
+ */
+export class CalibrationSystem {
+  private latest: Calibration | null = null;
+  private card: Calibration | null = null;
+
+  private distance(p1: LandmarkPoint, p2: LandmarkPoint): number {
+    const dx = p2.x - p1.x;
+    const dy = p2.y - p1.y;
+    const dz = p2.z - p1.z;
+    return Math.sqrt(dx * dx + dy * dy + dz * dz);
+  }
+
+  /**
+   * Measure the scale of one mesh from its iris landmarks
+   * @returns The frame's calibration, the credit-card calibration if the mesh
+   *   has no usable iris landmarks, or null if there is neither
+   */
+  calibrateFrame(landmarks: LandmarkPoint[], timestamp: number = Date.now()): Calibration | null {
+    if (landmarks.length < 478) {
+      return this.card;
+    }
+
+    const left = this.distance(landmarks[LEFT_IRIS_HORIZONTAL[0]], landmarks[LEFT_IRIS_HORIZONTAL[1]]);
+    const right = this.distance(landmarks[RIGHT_IRIS_HORIZONTAL[0]], landmarks[RIGHT_IRIS_HORIZONTAL[1]]);
+    if (!(left > 0) || !(right > 0)) {
+      return this.card;
+    }
+
+    const diameter = (left + right) / 2;
+    const asymmetry = Math.abs(left - right) / diameter;
+
+    // Population spread + left/right disagreement
+    this.latest = {
+      method: 'iris',
+      mmPerUnit: IRIS_DIAMETER_MM / diameter,
+      errorPercent: (IRIS_DIAMETER_SPREAD_MM / IRIS_DIAMETER_MM + asymmetry / 2) * 100,
+      timestamp
+    };
+    return this.latest;
+  }
+
+  /**
+   * Calibrate from a credit card held flat against the forehead
+   * @param cardWidthUnits - Measured card width, in the same units as the landmarks
+   * @param errorPercent - Error bound for the reference (default 3% for depth offset and edge picking)
+   * @returns The card calibration, or null if the width is invalid
+   */
+  calibrateWithCreditCard(
+    cardWidthUnits: number,
+    errorPercent: number = CREDIT_CARD_DEFAULT_ERROR_PERCENT,
+    timestamp: number = Date.now()
+  ): Calibration | null {
+    if (!(cardWidthUnits > 0)) {
+      console.warn('⚠️ Invalid credit card width:', cardWidthUnits);
+      return null;
+    }
+
+    this.card = {
+      method: 'credit-card',
+      mmPerUnit: CREDIT_CARD_WIDTH_MM / cardWidthUnits,
+      errorPercent,
+      timestamp
+    };
+    console.log('💳 Credit card calibration set:', this.card.mmPerUnit.toFixed(2), 'mm/unit');
+    return this.card;
+  }
+
+  /**
+   * Calibration of the most recent frame that had iris landmarks,
+   * else the credit-card calibration
+   */
+  getCalibration(): Calibration | null {
+    return this.latest ?? this.card;
+  }
+
+  getState(): CalibrationState {
+    return {
+      latest: this.latest ? { ...this.latest } : null,
+      card: this.card ? { ...this.card } : null
+    };
+  }
+
+  /**
+   * Continue from a snapshot taken with getState() (session replay)
+   */
+  restore(state: CalibrationState) {
+    this.latest = state.latest ? { ...state.latest } : null;
+    this.card = state.card ? { ...state.card } : null;
+  }
+
+  /**
+   * Whether any calibration is available
+   */
+  isCalibrated(): boolean {
+    return this.latest !== null || this.card !== null;
+  }
+
+  /**
+   * Convert a raw measurement into millimeters using the given calibration
+   */
+  toMetric(
+    raw: { faceWidth: number; eyeDistance: number; noseWidth: number; faceHeight: number },
+    calibration: Calibration
+  ): MetricMeasurements {
+    return {
+      faceWidthMm: raw.faceWidth * calibration.mmPerUnit,
+      eyeDistanceMm: raw.eyeDistance * calibration.mmPerUnit,
+      noseWidthMm: raw.noseWidth * calibration.mmPerUnit,
+      faceHeightMm: raw.faceHeight * calibration.mmPerUnit,
+      method: calibration.method,
+      errorPercent: calibration.errorPercent
+    };
+  }
+
+  /**
+   * Clear calibration data
+   */
+  reset() {
+    this.latest = null;
+    this.card = null;
+    console.log('🗑️ Calibration reset');
+  }
+}
@@ -0,0 +1,315 @@
+// src/catalog.ts - Frame catalog, model caching and runtime frame switching
+
+import { DEFAULT_SETTINGS, mergeSettings, type GlassesSettings } from './settings.ts';
+import { DEFAULT_VARIANT, parseVariant, type FrameVariant } from './materialVariants.ts';
+import { parseMaterialMapping, type MaterialMappingConfig } from './materialMapping.ts';
+import { parseTempleRig, type TempleRigConfig } from './templeRig.ts';
+
+export interface FrameCatalogEntry {
+  id: string;
+  name: string;                 // Display name
+  model: string;                // GLB path
+  lensWidthMm: number;          // Single lens width
+  bridgeWidthMm: number;        // Distance between lenses
+  templeLengthMm: number;       // Temple arm length
+  frameWidthMm: number;         // Total front width
+  defaultSettings: GlassesSettings;
+  variants: FrameVariant[];     // Colour/lens variants, first is the default
+  materialMapping: MaterialMappingConfig; // Mesh/material name rules for material roles
+  rig: TempleRigConfig;         // Temple bone name patterns (rigged models)
+}
+
+export interface FrameCatalogManifest {
+  version: number;
+  frames: FrameCatalogEntry[];
+}
+
+export const CATALOG_VERSION = 1;
+
+/**
+ * Validate one manifest entry, filling default settings where missing
+ */
+function parseEntry(raw: any, index: number): FrameCatalogEntry {
+  const where = `catalog frame #${index}`;
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Invalid ${where}: expected an object`);
+  }
+  if (typeof raw.id !== 'string' || !raw.id) {
+    throw new Error(`Invalid ${where}: missing id`);
+  }
+  if (typeof raw.model !== 'string' || !raw.model) {
+    throw new Error(`Invalid ${where} (${raw.id}): missing model path`);
+  }
+
+  const dimensions = ['lensWidthMm', 'bridgeWidthMm', 'templeLengthMm', 'frameWidthMm'];
+  dimensions.forEach((key) => {
+    if (typeof raw[key] !== 'number' || !(raw[key] > 0)) {
+      throw new Error(`Invalid ${where} (${raw.id}): ${key} must be a positive number`);
+    }
+  });
+
+  const variants: FrameVariant[] = Array.isArray(raw.variants) && raw.variants.length > 0
+    ? raw.variants.map(parseVariant)
+    : [DEFAULT_VARIANT];
+  if (new Set(variants.map(v => v.id)).size !== variants.length) {
+    throw new Error(`Invalid ${where} (${raw.id}): duplicate variant ids`);
+  }
+
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' ? raw.name : raw.id,
+    model: raw.model,
+    lensWidthMm: raw.lensWidthMm,
+    bridgeWidthMm: raw.bridgeWidthMm,
+    templeLengthMm: raw.templeLengthMm,
+    frameWidthMm: raw.frameWidthMm,
+    defaultSettings: mergeSettings(DEFAULT_SETTINGS, raw.defaultSettings),
+    variants,
+    materialMapping: parseMaterialMapping(raw.materialMapping, `${where} (${raw.id})`),
+    rig: parseTempleRig(raw.rig, `${where} (${raw.id})`)
+  };
+}
+
+export class FrameCatalog {
+  private frames: FrameCatalogEntry[];
+
+  constructor(frames: FrameCatalogEntry[]) {
+    this.frames = frames;
+  }
+
+  /**
+   * Build a catalog from a parsed manifest, validating every entry
+   */
+  static fromManifest(manifest: any): FrameCatalog {
+    if (!manifest || !Array.isArray(manifest.frames)) {
+      throw new Error('Invalid catalog manifest: missing frames array');
+    }
+    if (manifest.version !== CATALOG_VERSION) {
+      throw new Error(`Unsupported catalog version: ${manifest.version}`);
+    }
+
+    const frames = manifest.frames.map(parseEntry);
+    const ids = new Set<string>();
+    frames.forEach((frame: FrameCatalogEntry) => {
+      if (ids.has(frame.id)) {
+        throw new Error(`Duplicate catalog frame id: ${frame.id}`);
+      }
+      ids.add(frame.id);
+    });
+    return new FrameCatalog(frames);
+  }
+
+  /**
+   * Fetch and parse a catalog manifest
+   */
+  static async load(url: string): Promise<FrameCatalog> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load catalog ${url}: ${response.status}`);
+    }
+    const catalog = FrameCatalog.fromManifest(await response.json());
+    console.log(`📚 Catalog loaded: ${catalog.size()} frames`);
+    return catalog;
+  }
+
+  getFrames(): FrameCatalogEntry[] {
+    return this.frames;
+  }
+
+  getFrame(id: string): FrameCatalogEntry | null {
+    return this.frames.find(f => f.id === id) ?? null;
+  }
+
+  findByModel(model: string): FrameCatalogEntry | null {
+    return this.frames.find(f => f.model === model) ?? null;
+  }
+
+  size(): number {
+    return this.frames.length;
+  }
+
+  /**
+   * Get the frames most likely to be selected after the given one
+   * (its neighbours in catalog order)
+   */
+  getNeighbours(id: string, count: number = 2): FrameCatalogEntry[] {
+    const index = this.frames.findIndex(f => f.id === id);
+    if (index < 0 || this.frames.length < 2) {
+      return [];
+    }
+
+    const total = this.frames.length;
+    const result: FrameCatalogEntry[] = [];
+    for (let offset = 1; offset < total && result.length < count; offset++) {
+      // Alternate next / previous
+      [index + offset, index - offset].forEach((i) => {
+        const frame = this.frames[(i + total) % total];
+        if (result.length < count && !result.includes(frame)) {
+          result.push(frame);
+        }
+      });
+    }
+    return result;
+  }
+}
+
+/**
+ * Caches downloaded GLB files as object URLs (least recently used eviction)
+ */
+export class ModelCache {
+  private entries = new Map<string, Promise<string>>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 8) {
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Get an object URL for a model, downloading it if not cached
+   */
+  get(url: string): Promise<string> {
+    const cached = this.entries.get(url);
+    if (cached) {
+      // Refresh LRU order
+      this.entries.delete(url);
+      this.entries.set(url, cached);
+      return cached;
+    }
+
+    const pending = fetch(url)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load model ${url}: ${response.status}`);
+        }
+        return response.blob();
+      })
+      .then(blob => URL.createObjectURL(blob));
+
+    // Failed downloads are not kept in the cache
+    pending.catch(() => this.entries.delete(url));
+
+    this.entries.set(url, pending);
+    this.evict();
+    return pending;
+  }
+
+  /**
+   * Start downloading a model in the background
+   */
+  preload(url: string) {
+    this.get(url).catch((error) => console.warn('Model preload failed:', error));
+  }
+
+  has(url: string): boolean {
+    return this.entries.has(url);
+  }
+
+  private evict() {
+    while (this.entries.size > this.maxEntries) {
+      const [oldestUrl, oldest] = this.entries.entries().next().value!;
+      this.entries.delete(oldestUrl);
+      oldest.then(objectUrl => URL.revokeObjectURL(objectUrl)).catch(() => {});
+    }
+  }
+
+  clear() {
+    this.entries.forEach(entry => entry.then(objectUrl => URL.revokeObjectURL(objectUrl)).catch(() => {}));
+    this.entries.clear();
+  }
+}
+
+/**
+ * Swaps the model on the glasses entity without restarting the MindAR session
+ */
+export class FrameSwitcher {
+  private catalog: FrameCatalog;
+  private glassesEntity: any;
+  private cache: ModelCache;
+  private currentFrame: FrameCatalogEntry | null = null;
+  private loadingFrame: FrameCatalogEntry | null = null;
+  private switchToken: number = 0;
+  private preloadCount: number;
+
+  constructor(catalog: FrameCatalog, glassesEntity: any, cache: ModelCache = new ModelCache(), preloadCount: number = 2) {
+    this.catalog = catalog;
+    this.glassesEntity = glassesEntity;
+    this.cache = cache;
+    this.preloadCount = preloadCount;
+  }
+
+  /**
+   * Mark a frame as current without reloading it (e.g. the initial model)
+   */
+  setCurrent(id: string) {
+    this.currentFrame = this.catalog.getFrame(id);
+    if (this.currentFrame) {
+      this.preloadNeighbours(this.currentFrame.id);
+    }
+  }
+
+  getCurrentFrame(): FrameCatalogEntry | null {
+    return this.currentFrame;
+  }
+
+  /**
+   * Frame whose model is currently being loaded, if any
+   */
+  getLoadingFrame(): FrameCatalogEntry | null {
+    return this.loadingFrame;
+  }
+
+  getCatalog(): FrameCatalog {
+    return this.catalog;
+  }
+
+  /**
+   * Switch to a frame by id. Resolves once the new model has loaded.
+   * If another switch starts before this one finishes, the older one is dropped.
+   * The current frame resolves at once: setting the same `gltf-model` again
+   * never fires `model-loaded`.
+   */
+  async selectFrame(id: string): Promise<FrameCatalogEntry> {
+    const frame = this.catalog.getFrame(id);
+    if (!frame) {
+      throw new Error(`Unknown frame: ${id}`);
+    }
+    if (frame === this.currentFrame && !this.loadingFrame) {
+      return frame;
+    }
+
+    const token = ++this.switchToken;
+    const objectUrl = await this.cache.get(frame.model);
+    if (token !== this.switchToken) {
+      throw new Error(`Frame switch to ${id} superseded`);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const onLoaded = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = () => {
+        cleanup();
+        reject(new Error(`Failed to load model for frame ${id}`));
+      };
+      const cleanup = () => {
+        this.loadingFrame = null;
+        this.glassesEntity.removeEventListener('model-loaded', onLoaded);
+        this.glassesEntity.removeEventListener('model-error', onError);
+      };
+      this.loadingFrame = frame;
+      this.glassesEntity.addEventListener('model-loaded', onLoaded);
+      this.glassesEntity.addEventListener('model-error', onError);
+      this.glassesEntity.setAttribute('gltf-model', `url(${objectUrl})`);
+    });
+
+    this.currentFrame = frame;
+    console.log('👓 Frame selected:', frame.name);
+    this.preloadNeighbours(frame.id);
+    return frame;
+  }
+
+  private preloadNeighbours(id: string) {
+    this.catalog.getNeighbours(id, this.preloadCount).forEach(frame => this.cache.preload(frame.model));
+  }
+}
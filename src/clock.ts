@@ -0,0 +1,74 @@
+// src/clock.ts - Time source abstraction (real or virtual) for deterministic replay
+
+export interface Clock {
+  now(): number;
+  setInterval(callback: () => void, ms: number): number;
+  clearInterval(id: number): void;
+}
+
+/**
+ * Wall clock backed by Date.now() and window timers
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setInterval: (callback, ms) => window.setInterval(callback, ms),
+  clearInterval: id => window.clearInterval(id)
+};
+
+interface VirtualTimer {
+  due: number;
+  interval: number;
+  callback: () => void;
+}
+
+/**
+ * Manually advanced clock. Timers fire in time order (ties in creation order)
+ * while advancing, so a run is fully reproducible.
+ */
+export class VirtualClock implements Clock {
+  private time: number;
+  private timers = new Map<number, VirtualTimer>();
+  private nextId: number = 1;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setInterval(callback: () => void, ms: number): number {
+    const id = this.nextId++;
+    this.timers.set(id, { due: this.time + ms, interval: Math.max(ms, 1), callback });
+    return id;
+  }
+
+  clearInterval(id: number) {
+    this.timers.delete(id);
+  }
+
+  /**
+   * Advance to an absolute time, firing every timer that falls due
+   */
+  advanceTo(time: number) {
+    while (true) {
+      let next: VirtualTimer | null = null;
+      for (const timer of this.timers.values()) {
+        if (timer.due <= time && (!next || timer.due < next.due)) {
+          next = timer;
+        }
+      }
+      if (!next) break;
+
+      this.time = next.due;
+      next.due += next.interval;
+      next.callback();
+    }
+    this.time = Math.max(this.time, time);
+  }
+
+  advance(ms: number) {
+    this.advanceTo(this.time + ms);
+  }
+}
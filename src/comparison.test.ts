@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ComparisonGallery, type ComparisonEntry } from './comparison.ts';
+import { DEFAULT_SETTINGS } from './settings.ts';
+
+/**
+ * In-memory Storage that throws once a value exceeds `quota` characters
+ */
+function createStorage(quota: number): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => {
+      if (value.length > quota) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      items.set(key, value);
+    }
+  };
+}
+
+function entry(frameId: string, imageSize: number): Omit<ComparisonEntry, 'id' | 'createdAt'> {
+  return {
+    frameId,
+    frameName: frameId,
+    image: 'x'.repeat(imageSize),
+    settings: { ...DEFAULT_SETTINGS },
+    measurements: null,
+    fit: null
+  };
+}
+
+describe('ComparisonGallery', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('drops older entries to make room for a new one', () => {
+    const storage = createStorage(1800);
+    const gallery = new ComparisonGallery(storage);
+    gallery.add(entry('a', 1000));
+    const added = gallery.add(entry('b', 1000));
+
+    expect(gallery.list().map(e => e.frameId)).toEqual(['b']);
+    expect(gallery.get(added.id)).not.toBeNull();
+    expect(new ComparisonGallery(storage).list().map(e => e.id)).toEqual([added.id]);
+  });
+
+  it('throws and keeps the gallery when the new entry alone does not fit', () => {
+    const storage = createStorage(1800);
+    const gallery = new ComparisonGallery(storage);
+    const kept = gallery.add(entry('a', 1000));
+
+    expect(() => gallery.add(entry('b', 5000))).toThrow(/storage is full/);
+    expect(gallery.list().map(e => e.id)).toEqual([kept.id]);
+    expect(new ComparisonGallery(storage).list().map(e => e.id)).toEqual([kept.id]);
+  });
+});
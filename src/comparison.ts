@@ -0,0 +1,132 @@
+// src/comparison.ts - Session-scoped gallery of tried frames for side-by-side comparison
+
+import type { FaceMeasurements } from './faceMeasurement.ts';
+import { DEFAULT_SETTINGS, mergeSettings, type GlassesSettings } from './settings.ts';
+import type { SizeCategory } from './recommendation.ts';
+
+export const COMPARISON_KEY = 'mindar-glasses-comparison';
+export const MAX_COMPARISON_ENTRIES = 4;
+
+export interface ComparisonFit {
+  score: number;                // Recommendation score for the frame (0-1)
+  sizeCategory: SizeCategory;   // Size category of the face
+  approximate: boolean;         // Measurements were not calibrated to mm
+}
+
+export interface ComparisonEntry {
+  id: string;
+  frameId: string | null;
+  frameName: string;
+  image: string;                // Snapshot as a data URL
+  settings: GlassesSettings;
+  measurements: FaceMeasurements | null;
+  fit: ComparisonFit | null;
+  createdAt: number;
+}
+
+function createEntryId(): string {
+  return `compare-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Keeps one entry per frame (the latest), up to MAX_COMPARISON_ENTRIES.
+ * Stored in sessionStorage so entries survive reloads but not the session.
+ */
+export class ComparisonGallery {
+  private storage: Storage;
+  private entries: ComparisonEntry[];
+
+  constructor(storage: Storage = sessionStorage) {
+    this.storage = storage;
+    this.entries = this.load();
+  }
+
+  private load(): ComparisonEntry[] {
+    try {
+      const saved = this.storage.getItem(COMPARISON_KEY);
+      if (!saved) return [];
+      const data = JSON.parse(saved);
+      if (!Array.isArray(data)) return [];
+      return data
+        .filter((e: any) => e && typeof e.id === 'string' && typeof e.image === 'string')
+        .map((e: any) => ({ ...e, settings: mergeSettings(DEFAULT_SETTINGS, e.settings) }))
+        .slice(0, MAX_COMPARISON_ENTRIES);
+    } catch (error) {
+      console.error('❌ Failed to load comparison entries:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save entries, dropping the oldest ones if the images exceed the storage quota
+   * @param keep - Number of newest entries that must not be dropped
+   * @returns The entries that were saved
+   * @throws If the kept entries alone don't fit
+   */
+  private persist(entries: ComparisonEntry[], keep: number = 0): ComparisonEntry[] {
+    let saved = [...entries];
+    while (saved.length > 0) {
+      try {
+        this.storage.setItem(COMPARISON_KEY, JSON.stringify(saved));
+        return saved;
+      } catch (error) {
+        if (saved.length <= keep) {
+          throw new Error('Comparison storage is full, even without older entries', { cause: error });
+        }
+        console.warn('⚠️ Comparison storage full, dropping oldest entry');
+        saved = saved.slice(1);
+      }
+    }
+    this.storage.removeItem(COMPARISON_KEY);
+    return saved;
+  }
+
+  /**
+   * Entries in the order they were added
+   */
+  list(): ComparisonEntry[] {
+    return [...this.entries];
+  }
+
+  get(id: string): ComparisonEntry | null {
+    return this.entries.find(e => e.id === id) ?? null;
+  }
+
+  /**
+   * Add an entry, replacing any earlier one for the same frame.
+   * Older entries are dropped if storage runs out.
+   * @throws If the new entry doesn't fit in storage on its own; the gallery is left unchanged
+   */
+  add(entry: Omit<ComparisonEntry, 'id' | 'createdAt'>): ComparisonEntry {
+    const created: ComparisonEntry = { ...entry, id: createEntryId(), createdAt: Date.now() };
+    const entries = this.entries.filter(e => entry.frameId === null || e.frameId !== entry.frameId);
+    entries.push(created);
+    this.entries = this.persist(entries.slice(-MAX_COMPARISON_ENTRIES), 1);
+    console.log('🖼️ Added to comparison:', created.frameName);
+    return created;
+  }
+
+  remove(id: string): boolean {
+    const before = this.entries.length;
+    this.entries = this.entries.filter(e => e.id !== id);
+    if (this.entries.length === before) {
+      return false;
+    }
+    this.entries = this.persist(this.entries);
+    return true;
+  }
+
+  clear() {
+    this.entries = [];
+    this.storage.removeItem(COMPARISON_KEY);
+  }
+}
@@ -0,0 +1,113 @@
+// src/comparisonUI.ts - 2–4 up grid of compared frames
+
+import type { TryOnController } from './tryOnController.ts';
+import type { ComparisonEntry } from './comparison.ts';
+
+export class ComparisonUI {
+  private tryOn: TryOnController;
+  private panel: HTMLElement | null = null;
+  private grid: HTMLElement | null = null;
+  private status: HTMLElement | null = null;
+
+  constructor(tryOn: TryOnController) {
+    this.tryOn = tryOn;
+  }
+
+  /**
+   * Bind to the comparison markup in index.html
+   */
+  mount(root: ParentNode = document) {
+    this.panel = root.querySelector('#comparisonPanel');
+    this.grid = root.querySelector('#comparisonGrid');
+    this.status = root.querySelector('#comparisonStatus');
+
+    root.querySelector('#compareAddBtn')?.addEventListener('click', () => this.add());
+    root.querySelector('#compareToggleBtn')?.addEventListener('click', () => this.toggle());
+    root.querySelector('#compareClearBtn')?.addEventListener('click', () => this.tryOn.clearComparison());
+    root.querySelector('#compareCloseBtn')?.addEventListener('click', () => this.toggle(false));
+
+    this.tryOn.on('comparisonChanged', () => this.refresh());
+    this.refresh();
+  }
+
+  toggle(visible: boolean = !!this.panel?.hidden) {
+    if (this.panel) this.panel.hidden = !visible;
+  }
+
+  /**
+   * Re-render the grid from the gallery
+   */
+  refresh() {
+    if (!this.grid) return;
+    const entries = this.tryOn.comparison.list();
+    this.grid.innerHTML = '';
+    this.grid.style.gridTemplateColumns = `repeat(${Math.min(Math.max(entries.length, 2), 4)}, 1fr)`;
+
+    if (entries.length === 0) {
+      const empty = document.createElement('p');
+      empty.className = 'comparison-empty';
+      empty.textContent = 'Try on a frame and press "Add to compare".';
+      this.grid.appendChild(empty);
+      return;
+    }
+    entries.forEach(entry => this.grid!.appendChild(this.renderEntry(entry)));
+  }
+
+  private renderEntry(entry: ComparisonEntry): HTMLElement {
+    const figure = document.createElement('figure');
+    figure.className = 'comparison-entry';
+
+    const image = document.createElement('img');
+    image.src = entry.image;
+    image.alt = entry.frameName;
+    figure.appendChild(image);
+
+    const caption = document.createElement('figcaption');
+    const title = document.createElement('strong');
+    title.textContent = entry.frameName;
+    caption.appendChild(title);
+
+    const details = document.createElement('span');
+    const fit = entry.fit
+      ? `Fit ${(entry.fit.score * 100).toFixed(0)}%${entry.fit.approximate ? ' (approx.)' : ''}`
+      : 'Fit unknown';
+    details.textContent = `${fit} · scale ${entry.settings.scale.toFixed(2)}`;
+    caption.appendChild(details);
+
+    const actions = document.createElement('div');
+    actions.className = 'preset-row';
+    const restore = document.createElement('button');
+    restore.textContent = 'Restore';
+    restore.addEventListener('click', () => this.restore(entry));
+    const remove = document.createElement('button');
+    remove.textContent = 'Remove';
+    remove.addEventListener('click', () => this.tryOn.removeComparison(entry.id));
+    actions.append(restore, remove);
+    caption.appendChild(actions);
+
+    figure.appendChild(caption);
+    return figure;
+  }
+
+  private async add() {
+    try {
+      const entry = await this.tryOn.addToComparison();
+      this.toggle(true);
+      this.setStatus(`Added "${entry.frameName}"`);
+    } catch (error) {
+      console.error('❌ Failed to add to comparison:', error);
+      this.setStatus(error instanceof Error ? `Could not add the frame: ${error.message}` : 'Could not capture the frame', true);
+    }
+  }
+
+  private async restore(entry: ComparisonEntry) {
+    const restored = await this.tryOn.restoreComparison(entry.id);
+    this.setStatus(restored ? `Restored "${entry.frameName}"` : `Could not restore "${entry.frameName}"`, !restored);
+  }
+
+  private setStatus(message: string, isError: boolean = false) {
+    if (!this.status) return;
+    this.status.textContent = message;
+    this.status.classList.toggle('error', isError);
+  }
+}
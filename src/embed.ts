@@ -0,0 +1,8 @@
+// src/embed.ts - Entry point for product pages: registers <glasses-tryon>
+import { registerGlassesTryOn } from './glassesTryOnElement.ts';
+
+registerGlassesTryOn();
+
+export { GlassesTryOnElement, registerGlassesTryOn } from './glassesTryOnElement.ts';
+export type { TryOnEvents, SettingsChangeSource } from './tryOnController.ts';
+export type { GlassesSettings } from './settings.ts';
@@ -0,0 +1,61 @@
+// src/eventEmitter.ts - Minimal typed event emitter with unsubscribe handles
+
+export type Unsubscribe = () => void;
+
+type Listener<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events extends { [K in keyof Events]: unknown }> {
+  private listeners = new Map<keyof Events, Set<Listener<any>>>();
+
+  /**
+   * Subscribe to an event
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): Unsubscribe {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): Unsubscribe {
+    const unsubscribe = this.on(event, (payload) => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Notify every listener. A throwing listener is logged and does not
+   * prevent the others from running.
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    [...listeners].forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`❌ Listener for "${String(event)}" failed:`, error);
+      }
+    });
+  }
+
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  clear() {
+    this.listeners.clear();
+  }
+}
@@ -1,12 +1,64 @@
 // src/faceMeasurement.ts - Face measurement using MediaPipe landmarks
 
+import type { LandmarkSource } from './landmarkSource.ts';
+import { TypedEventEmitter, type Unsubscribe } from './eventEmitter.ts';
+import { systemClock, type Clock } from './clock.ts';
+import {
+  DEFAULT_POSE_GATE,
+  getAnchorQuaternion,
+  isWithinPoseGate,
+  quaternionToPose,
+  toFaceLocal,
+  type HeadPose,
+  type PoseGateOptions
+} from './headPose.ts';
+import { CalibrationSystem, type Calibration, type CalibrationState, type MetricMeasurements } from './calibration.ts';
+import { classifyFaceShape, computeShapeRatios, type FaceShapeResult } from './faceShape.ts';
+import {
+  MeasurementFilter,
+  median,
+  type MeasurementFilterOptions,
+  type MeasurementFilterState,
+  type MeasurementStats
+} from './filters.ts';
+
 export interface FaceMeasurements {
   faceWidth: number;        // Distance between temples (234-454)
-  eyeDistance: number;      // Distance between eyes (left-right)
-  noseWidth: number;        // Width of nose bridge
+  eyeDistance: number;      // Pupillary distance (iris centres 468-473, or eye centres)
+  noseWidth: number;        // Width of the nose bridge region (inner eye corners 133-362)
   faceHeight: number;       // Forehead to chin
   confidence: number;       // Measurement confidence (0-1)
   timestamp: number;        // When measurement was taken
+  metric?: MetricMeasurements; // Millimeter values, present once calibrated
+  foreheadWidth?: number;   // Forehead width (54-284)
+  cheekboneWidth?: number;  // Cheekbone width (116-345)
+  jawWidth?: number;        // Jaw angle width (172-397)
+  shape?: FaceShapeResult;  // Face shape classification
+  stats?: MeasurementStats; // Variance and convergence (averaged measurements only)
+  pose?: HeadPose;          // Head pose when the sample was taken
+  orientation?: FaceOrientation; // Face-local tilt/roll/yaw of facial features
+}
+
+/**
+ * Angles of facial features in the face's local frame (degrees), independent of head pose
+ */
+export interface FaceOrientation {
+  profileTilt: number;      // Forehead (10) ahead of chin (152) in depth; positive = forehead forward
+  eyeLineRoll: number;      // Eye line (33-263) against horizontal; positive = counter-clockwise
+  templeYaw: number;        // Temple line (234-454) against the face front; positive = right temple forward
+}
+
+/**
+ * Everything measureFace() and getAverageMeasurements() depend on besides
+ * the current frame, so a recorded session can start where the app was
+ */
+export interface MeasurementSystemState {
+  measurements: FaceMeasurements[];     // Current window
+  lastMeasurementTime: number;
+  lostAt: number | null;
+  poseGate: PoseGateOptions;
+  filter: MeasurementFilterState;
+  calibration: CalibrationState;        // Each sample is calibrated from its own frame
 }
 
 export interface LandmarkPoint {
@@ -22,10 +74,12 @@ export interface LandmarkPoint {
  * 168: Nose bridge (glasses anchor)
  * 234: Left temple
  * 454: Right temple
- * 33: Left eye outer corner
- * 263: Right eye outer corner
- * 130: Left eye inner corner
- * 359: Right eye inner corner
+ * 33 / 133: Left eye outer / inner corner
+ * 263 / 362: Right eye outer / inner corner
+ * 468 / 473: Left / right iris centre (478-point meshes only)
+ * 54 / 284: Left / right forehead
+ * 116 / 345: Left / right cheekbone
+ * 172 / 397: Left / right jaw angle
  */
 
 export class FaceMeasurementSystem {
@@ -33,7 +87,21 @@ export class FaceMeasurementSystem {
   private measurementInterval: number = 1000; // Measure every 1 second
   private lastMeasurementTime: number = 0;
   private anchorEntity: any = null;
-  private measurementCallback?: (measurement: FaceMeasurements) => void;
+  private landmarkSource: LandmarkSource | null = null;
+  private events = new TypedEventEmitter<{ measurement: FaceMeasurements }>();
+  private calibration = new CalibrationSystem();
+  private filter = new MeasurementFilter();
+  private clock: Clock;
+  private poseGate: PoseGateOptions = { ...DEFAULT_POSE_GATE };
+  private lostAt: number | null = null;
+  private resetAfterLost: number = 1000; // ms without a face before measurements start over
+
+  /**
+   * @param clock - Time source (a VirtualClock when replaying recorded sessions)
+   */
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
 
   /**
    * Initialize the face measurement system
@@ -46,23 +114,51 @@ export class FaceMeasurementSystem {
     if (this.anchorEntity) {
       this.anchorEntity.addEventListener('targetFound', () => {
         console.log('👤 Face detected');
+        // A face that was gone for a while may be someone else: start over
+        if (this.lostAt !== null && this.clock.now() - this.lostAt >= this.resetAfterLost) {
+          this.clearMeasurements();
+        }
+        this.lostAt = null;
       });
       
       this.anchorEntity.addEventListener('targetLost', () => {
         console.log('👻 Face lost');
+        this.lostAt = this.clock.now();
       });
     }
     
     console.log('📏 Face Measurement System initialized');
   }
   
+  /**
+   * Set the provider of face mesh landmarks used by measureFace()
+   * @param disposePrevious - Dispose the replaced source (false when wrapping it)
+   */
+  setLandmarkSource(source: LandmarkSource | null, disposePrevious: boolean = true) {
+    if (disposePrevious) {
+      this.landmarkSource?.dispose?.();
+    }
+    this.landmarkSource = source;
+    console.log(source ? `🧩 Landmark source set: ${source.name}` : '🧩 Landmark source cleared');
+  }
+
+  /**
+   * Get the current landmark source
+   */
+  getLandmarkSource(): LandmarkSource | null {
+    return this.landmarkSource;
+  }
+
   /**
    * Register callback for measurement updates
-   * This allows other systems (like autoAdjuster) to react to new measurements
+   * This allows other systems (like autoAdjuster) to react to new measurements.
+   * Any number of callbacks can be registered.
+   * @returns Function that removes the callback
    */
-  onMeasurementUpdate(callback: (measurement: FaceMeasurements) => void) {
-    this.measurementCallback = callback;
+  onMeasurementUpdate(callback: (measurement: FaceMeasurements) => void): Unsubscribe {
+    const unsubscribe = this.events.on('measurement', callback);
     console.log('🔗 Measurement callback registered');
+    return unsubscribe;
   }
 
   /**
@@ -80,89 +176,118 @@ export class FaceMeasurementSystem {
   }
   
   /**
-   * Calculate distance between two 3D points
+   * Horizontal span between two face-local points.
+   * Depth and vertical offsets are ignored so a turned head doesn't change it.
    */
-  private calculateDistance(p1: LandmarkPoint, p2: LandmarkPoint): number {
-    const dx = p2.x - p1.x;
-    const dy = p2.y - p1.y;
-    const dz = p2.z - p1.z;
-    return Math.sqrt(dx * dx + dy * dy + dz * dz);
+  private calculateWidth(p1: LandmarkPoint, p2: LandmarkPoint): number {
+    return Math.abs(p2.x - p1.x);
   }
 
   /**
-   * Get landmark position from face anchor's position
-   * Since MindAR tracks the anchor at position 168 (nose bridge),
-   * we use the anchor's world position and estimate other landmarks
-   * based on the anchor's transform
+   * Vertical span between two face-local points
    */
-  private getLandmark(index: number): LandmarkPoint | null {
-    if (!this.anchorEntity || !this.anchorEntity.object3D) {
+  private calculateHeight(p1: LandmarkPoint, p2: LandmarkPoint): number {
+    return Math.abs(p2.y - p1.y);
+  }
+
+  /**
+   * Get the current head pose from the anchor transform
+   */
+  getHeadPose(): HeadPose | null {
+    const object3D = this.anchorEntity?.object3D;
+    if (!object3D?.matrix) {
       return null;
     }
+    return quaternionToPose(getAnchorQuaternion(object3D));
+  }
 
-    try {
-      // Get the anchor's world position (nose bridge - landmark 168)
-      const anchorPos = this.anchorEntity.object3D.position;
-      const anchorScale = this.anchorEntity.object3D.scale.x;
-      
-      // For nose bridge (168), return anchor position directly
-      if (index === 168) {
-        return {
-          x: anchorPos.x,
-          y: anchorPos.y,
-          z: anchorPos.z
-        };
-      }
-      
-      // Estimate other landmarks based on typical face proportions
-      // These are relative to nose bridge position
-      const estimates: { [key: number]: { x: number; y: number; z: number } } = {
-        234: { x: -0.07 * anchorScale, y: 0.02 * anchorScale, z: -0.01 * anchorScale }, // Left temple
-        454: { x: 0.07 * anchorScale, y: 0.02 * anchorScale, z: -0.01 * anchorScale },  // Right temple
-        10: { x: 0, y: 0.08 * anchorScale, z: 0.02 * anchorScale },  // Forehead
-        152: { x: 0, y: -0.08 * anchorScale, z: 0.01 * anchorScale }, // Chin
-        33: { x: -0.04 * anchorScale, y: 0.01 * anchorScale, z: 0.03 * anchorScale },  // Left eye outer
-        263: { x: 0.04 * anchorScale, y: 0.01 * anchorScale, z: 0.03 * anchorScale },  // Right eye outer
-        130: { x: -0.015 * anchorScale, y: 0, z: 0.02 * anchorScale }, // Left eye inner
-        359: { x: 0.015 * anchorScale, y: 0, z: 0.02 * anchorScale }   // Right eye inner
-      };
-      
-      const estimate = estimates[index];
-      if (estimate) {
-        return {
-          x: anchorPos.x + estimate.x,
-          y: anchorPos.y + estimate.y,
-          z: anchorPos.z + estimate.z
-        };
-      }
-    } catch (e) {
-      console.warn(`Failed to get landmark ${index}:`, e);
+  /**
+   * Configure which head poses are accepted for sizing
+   */
+  setPoseGate(options: Partial<PoseGateOptions>) {
+    this.poseGate = { ...this.poseGate, ...options };
+    console.log('🧭 Pose gate set:', this.poseGate);
+  }
+
+  getPoseGate(): PoseGateOptions {
+    return this.poseGate;
+  }
+
+  /**
+   * Get a landmark from the current mesh snapshot
+   */
+  private getLandmark(landmarks: LandmarkPoint[], index: number): LandmarkPoint | null {
+    const point = landmarks[index];
+    if (!point || !Number.isFinite(point.x) || !Number.isFinite(point.y) || !Number.isFinite(point.z)) {
+      return null;
     }
-    return null;
+    return point;
+  }
+
+  /**
+   * Pupil position: the iris centre when the mesh has iris landmarks,
+   * otherwise the midpoint of the eye corners
+   */
+  private getPupil(landmarks: LandmarkPoint[], iris: number, outer: number, inner: number): LandmarkPoint | null {
+    const centre = this.getLandmark(landmarks, iris);
+    if (centre) {
+      return centre;
+    }
+    const a = this.getLandmark(landmarks, outer);
+    const b = this.getLandmark(landmarks, inner);
+    return a && b ? { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 } : null;
   }
 
   /**
    * Measure face dimensions using current landmarks
    */
   measureFace(): FaceMeasurements | null {
-    const now = Date.now();
+    const now = this.clock.now();
     
     // Throttle measurements
     if (now - this.lastMeasurementTime < this.measurementInterval) {
       return null;
     }
 
+    if (!this.landmarkSource) {
+      return null;
+    }
+
     try {
+      // Take one snapshot of the mesh so all landmarks come from the same frame
+      const rawLandmarks = this.landmarkSource.getLandmarks();
+      if (!rawLandmarks) {
+        return null;
+      }
+
+      // Only near-frontal samples are used for sizing
+      const object3D = this.anchorEntity?.object3D;
+      const rotation = object3D?.matrix ? getAnchorQuaternion(object3D) : null;
+      const pose = rotation ? quaternionToPose(rotation) : undefined;
+      if (pose && !isWithinPoseGate(pose, this.poseGate)) {
+        console.log('↪️ Head pose outside gate, sample skipped:', {
+          yaw: pose.yaw.toFixed(0),
+          pitch: pose.pitch.toFixed(0),
+          roll: pose.roll.toFixed(0)
+        });
+        return null;
+      }
+
+      // Normalize into the face's local frame
+      const landmarks = this.landmarkSource.space === 'camera' && rotation
+        ? toFaceLocal(rawLandmarks, rotation)
+        : rawLandmarks;
+
       // Get key landmarks
-      const leftTemple = this.getLandmark(234);
-      const rightTemple = this.getLandmark(454);
-      const noseBridge = this.getLandmark(168);
-      const forehead = this.getLandmark(10);
-      const chin = this.getLandmark(152);
-      const leftEyeOuter = this.getLandmark(33);
-      const rightEyeOuter = this.getLandmark(263);
-      const leftEyeInner = this.getLandmark(130);
-      const rightEyeInner = this.getLandmark(359);
+      const leftTemple = this.getLandmark(landmarks, 234);
+      const rightTemple = this.getLandmark(landmarks, 454);
+      const noseBridge = this.getLandmark(landmarks, 168);
+      const forehead = this.getLandmark(landmarks, 10);
+      const chin = this.getLandmark(landmarks, 152);
+      const leftPupil = this.getPupil(landmarks, 468, 33, 133);
+      const rightPupil = this.getPupil(landmarks, 473, 263, 362);
+      const leftEyeInner = this.getLandmark(landmarks, 133);
+      const rightEyeInner = this.getLandmark(landmarks, 362);
 
       // Check if we have enough landmarks
       const hasRequiredLandmarks = leftTemple && rightTemple && noseBridge;
@@ -171,54 +296,71 @@ export class FaceMeasurementSystem {
       }
 
       // Calculate measurements
-      const faceWidth = this.calculateDistance(leftTemple!, rightTemple!);
-      const eyeDistance = leftEyeOuter && rightEyeOuter 
-        ? this.calculateDistance(leftEyeOuter, rightEyeOuter)
-        : faceWidth * 0.6; // Estimate if not available
+      const faceWidth = this.calculateWidth(leftTemple!, rightTemple!);
+      const eyeDistance = leftPupil && rightPupil
+        ? this.calculateWidth(leftPupil, rightPupil)
+        : faceWidth * 0.45; // Estimate if not available
       
       const noseWidth = leftEyeInner && rightEyeInner
-        ? this.calculateDistance(leftEyeInner, rightEyeInner)
-        : faceWidth * 0.2; // Estimate if not available
+        ? this.calculateWidth(leftEyeInner, rightEyeInner)
+        : faceWidth * 0.22; // Estimate if not available
 
       const faceHeight = forehead && chin
-        ? this.calculateDistance(forehead, chin)
+        ? this.calculateHeight(forehead, chin)
         : faceWidth * 1.3; // Estimate if not available
 
       // Calculate confidence based on landmark availability
       const availableLandmarks = [
         leftTemple, rightTemple, noseBridge, forehead, chin,
-        leftEyeOuter, rightEyeOuter, leftEyeInner, rightEyeInner
+        leftPupil, rightPupil, leftEyeInner, rightEyeInner
       ].filter(l => l !== null).length;
       
       const confidence = availableLandmarks / 9;
 
+      // Scale of this frame from its iris landmarks, else the credit card's
+      const calibration = this.calibration.calibrateFrame(landmarks, now);
+
       const measurement: FaceMeasurements = {
         faceWidth,
         eyeDistance,
         noseWidth,
         faceHeight,
         confidence,
-        timestamp: now
+        timestamp: now,
+        pose
       };
+      if (calibration) {
+        measurement.metric = this.calibration.toMetric(measurement, calibration);
+      }
+      this.attachShape(measurement, landmarks);
+      this.attachOrientation(measurement, landmarks);
+
+      // Reject samples that disagree with the recent window (e.g. during a head turn)
+      const rejected = this.filter.isOutlier(measurement, this.measurements);
+      if (rejected) {
+        console.log('🚫 Outlier measurement rejected');
+      } else {
+        this.filter.update(measurement);
+      }
 
-      // Store measurement
+      // Store measurement (outliers too, so a real change eventually becomes the median)
       this.measurements.push(measurement);
       
-      // Keep only last 10 measurements
-      if (this.measurements.length > 10) {
+      // Keep only the filter window
+      while (this.measurements.length > this.filter.getOptions().windowSize) {
         this.measurements.shift();
       }
 
       this.lastMeasurementTime = now;
       
       // Notify listeners of new measurement
-      if (this.measurementCallback) {
-        this.measurementCallback(measurement);
-      }
+      this.events.emit('measurement', measurement);
 
       console.log('📊 Face measured:', {
         width: faceWidth.toFixed(3),
         eyeDist: eyeDistance.toFixed(3),
+        widthMm: measurement.metric?.faceWidthMm.toFixed(1),
+        shape: measurement.shape?.shape,
         confidence: (confidence * 100).toFixed(0) + '%'
       });
 
@@ -230,40 +372,149 @@ export class FaceMeasurementSystem {
   }
 
   /**
-   * Get average measurements from recent samples (for stability)
+   * Get filtered measurements from recent samples (for stability).
+   * Outliers are rejected, samples are weighted by confidence and the
+   * configured temporal filter is applied. `stats` reports per-metric variance.
    */
   getAverageMeasurements(): FaceMeasurements | null {
-    if (this.measurements.length === 0) {
+    const average = this.filter.summarize(this.measurements);
+    if (!average) {
       return null;
     }
 
-    const count = this.measurements.length;
-    const sum = this.measurements.reduce((acc, m) => ({
-      faceWidth: acc.faceWidth + m.faceWidth,
-      eyeDistance: acc.eyeDistance + m.eyeDistance,
-      noseWidth: acc.noseWidth + m.noseWidth,
-      faceHeight: acc.faceHeight + m.faceHeight,
-      confidence: acc.confidence + m.confidence,
-      timestamp: m.timestamp
-    }), {
-      faceWidth: 0,
-      eyeDistance: 0,
-      noseWidth: 0,
-      faceHeight: 0,
-      confidence: 0,
-      timestamp: Date.now()
+    this.attachAverageMetric(average);
+
+    // Angles hover around zero, so they are averaged by median rather than filtered
+    const orientations = this.measurements.map(m => m.orientation).filter((o): o is FaceOrientation => !!o);
+    if (orientations.length > 0) {
+      average.orientation = {
+        profileTilt: median(orientations.map(o => o.profileTilt)),
+        eyeLineRoll: median(orientations.map(o => o.eyeLineRoll)),
+        templeYaw: median(orientations.map(o => o.templeYaw))
+      };
+    }
+
+    if (average.foreheadWidth !== undefined && average.cheekboneWidth !== undefined && average.jawWidth !== undefined) {
+      average.shape = classifyFaceShape(computeShapeRatios({
+        faceWidth: average.faceWidth,
+        faceHeight: average.faceHeight,
+        foreheadWidth: average.foreheadWidth,
+        cheekboneWidth: average.cheekboneWidth,
+        jawWidth: average.jawWidth
+      }));
+    }
+    return average;
+  }
+
+  /**
+   * Configure the filtering stage (resets filter state)
+   */
+  setFilterOptions(options: Partial<MeasurementFilterOptions>) {
+    this.filter.setOptions(options);
+    console.log('🎛️ Measurement filter set:', this.filter.getOptions().mode);
+  }
+
+  getFilterOptions(): MeasurementFilterOptions {
+    return this.filter.getOptions();
+  }
+
+  /**
+   * Compute forehead, cheekbone and jaw widths and classify face shape
+   */
+  private attachShape(measurement: FaceMeasurements, landmarks: LandmarkPoint[]) {
+    const pairs = [[54, 284], [116, 345], [172, 397]].map(([l, r]) => {
+      const left = this.getLandmark(landmarks, l);
+      const right = this.getLandmark(landmarks, r);
+      return left && right ? this.calculateWidth(left, right) : null;
     });
+    const [foreheadWidth, cheekboneWidth, jawWidth] = pairs;
+    if (foreheadWidth === null || cheekboneWidth === null || jawWidth === null) {
+      return;
+    }
+
+    measurement.foreheadWidth = foreheadWidth;
+    measurement.cheekboneWidth = cheekboneWidth;
+    measurement.jawWidth = jawWidth;
+    measurement.shape = classifyFaceShape(computeShapeRatios({
+      faceWidth: measurement.faceWidth,
+      faceHeight: measurement.faceHeight,
+      foreheadWidth,
+      cheekboneWidth,
+      jawWidth
+    }));
+  }
+
+  /**
+   * Measure feature angles for automatic rotation (pantoscopic tilt, roll, wrap)
+   */
+  private attachOrientation(measurement: FaceMeasurements, landmarks: LandmarkPoint[]) {
+    const points = [10, 152, 33, 263, 234, 454].map(i => this.getLandmark(landmarks, i));
+    if (points.some(p => p === null)) {
+      return;
+    }
+    const [forehead, chin, eyeA, eyeB, templeA, templeB] = points as LandmarkPoint[];
+    const degrees = (radians: number) => radians * 180 / Math.PI;
+
+    // Order left-to-right so the angles don't depend on landmark handedness
+    const [eyeLeft, eyeRight] = eyeA.x <= eyeB.x ? [eyeA, eyeB] : [eyeB, eyeA];
+    const [templeLeft, templeRight] = templeA.x <= templeB.x ? [templeA, templeB] : [templeB, templeA];
+
+    measurement.orientation = {
+      profileTilt: degrees(Math.atan2(forehead.z - chin.z, forehead.y - chin.y)),
+      eyeLineRoll: degrees(Math.atan2(eyeRight.y - eyeLeft.y, eyeRight.x - eyeLeft.x)),
+      templeYaw: degrees(Math.atan2(templeRight.z - templeLeft.z, templeRight.x - templeLeft.x))
+    };
+  }
+
+  /**
+   * Get face shape classification from averaged measurements
+   */
+  getFaceShape(): FaceShapeResult | null {
+    return this.getAverageMeasurements()?.shape ?? null;
+  }
 
-    return {
-      faceWidth: sum.faceWidth / count,
-      eyeDistance: sum.eyeDistance / count,
-      noseWidth: sum.noseWidth / count,
-      faceHeight: sum.faceHeight / count,
-      confidence: sum.confidence / count,
-      timestamp: sum.timestamp
+  /**
+   * Median of the window's millimeter values. Each sample was converted with
+   * its own frame's scale, so raw units from different distances never mix.
+   */
+  private attachAverageMetric(average: FaceMeasurements) {
+    const metrics = this.measurements.map(m => m.metric).filter((m): m is MetricMeasurements => !!m);
+    if (metrics.length === 0) {
+      return;
+    }
+    average.metric = {
+      faceWidthMm: median(metrics.map(m => m.faceWidthMm)),
+      eyeDistanceMm: median(metrics.map(m => m.eyeDistanceMm)),
+      noseWidthMm: median(metrics.map(m => m.noseWidthMm)),
+      faceHeightMm: median(metrics.map(m => m.faceHeightMm)),
+      method: metrics[metrics.length - 1].method,
+      errorPercent: median(metrics.map(m => m.errorPercent))
     };
   }
 
+  /**
+   * Calibrate with a credit card held against the forehead (fallback when
+   * the landmark source has no iris landmarks)
+   * @param cardWidthUnits - Card width measured in landmark units
+   */
+  calibrateWithCreditCard(cardWidthUnits: number, errorPercent?: number): Calibration | null {
+    return this.calibration.calibrateWithCreditCard(cardWidthUnits, errorPercent);
+  }
+
+  /**
+   * Get the calibration of the latest frame with iris landmarks, else the credit card's
+   */
+  getCalibration(): Calibration | null {
+    return this.calibration.getCalibration();
+  }
+
+  /**
+   * Clear metric calibration data
+   */
+  resetCalibration() {
+    this.calibration.reset();
+  }
+
   /**
    * Get the most recent measurement
    */
@@ -273,11 +524,39 @@ export class FaceMeasurementSystem {
       : null;
   }
 
+  /**
+   * Snapshot of the window, filters and gates
+   */
+  getState(): MeasurementSystemState {
+    return structuredClone({
+      measurements: this.measurements,
+      lastMeasurementTime: this.lastMeasurementTime,
+      lostAt: this.lostAt,
+      poseGate: this.poseGate,
+      filter: this.filter.getState(),
+      calibration: this.calibration.getState()
+    });
+  }
+
+  /**
+   * Continue from a snapshot taken with getState()
+   */
+  restoreState(state: MeasurementSystemState) {
+    const copy = structuredClone(state);
+    this.measurements = copy.measurements;
+    this.lastMeasurementTime = copy.lastMeasurementTime;
+    this.lostAt = copy.lostAt;
+    this.poseGate = copy.poseGate;
+    this.filter.restoreState(copy.filter);
+    this.calibration.restore(copy.calibration);
+  }
+
   /**
    * Clear all stored measurements
    */
   clearMeasurements() {
     this.measurements = [];
+    this.filter.reset();
     console.log('🗑️ Measurements cleared');
   }
 }
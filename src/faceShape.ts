@@ -0,0 +1,93 @@
+// src/faceShape.ts - Face shape classification from landmark geometry
+
+export type FaceShape = 'oval' | 'round' | 'square' | 'heart' | 'oblong' | 'diamond';
+
+export const FACE_SHAPES: FaceShape[] = ['oval', 'round', 'square', 'heart', 'oblong', 'diamond'];
+
+export interface FaceShapeRatios {
+  lengthToWidth: number;      // faceHeight / faceWidth
+  foreheadToCheek: number;    // foreheadWidth / cheekboneWidth
+  jawToCheek: number;         // jawWidth / cheekboneWidth
+  jawToForehead: number;      // jawWidth / foreheadWidth
+}
+
+export interface FaceShapeResult {
+  shape: FaceShape;                        // Most likely shape
+  confidence: number;                      // Confidence of the most likely shape (0-1)
+  scores: Record<FaceShape, number>;       // Confidence per class, sums to 1
+  ratios: FaceShapeRatios;
+}
+
+/**
+ * Typical ratios per shape, in face mesh terms. Face height is measured from
+ * landmark 10 (upper forehead, below the hairline) to 152 (chin), so length
+ * ratios are lower than hairline-based stylist charts.
+ */
+const PROTOTYPES: Record<FaceShape, Omit<FaceShapeRatios, 'jawToForehead'>> = {
+  oval: { lengthToWidth: 1.35, foreheadToCheek: 0.9, jawToCheek: 0.78 },
+  round: { lengthToWidth: 1.1, foreheadToCheek: 0.9, jawToCheek: 0.85 },
+  square: { lengthToWidth: 1.15, foreheadToCheek: 0.95, jawToCheek: 0.95 },
+  heart: { lengthToWidth: 1.3, foreheadToCheek: 1.0, jawToCheek: 0.7 },
+  oblong: { lengthToWidth: 1.55, foreheadToCheek: 0.93, jawToCheek: 0.88 },
+  diamond: { lengthToWidth: 1.3, foreheadToCheek: 0.75, jawToCheek: 0.72 }
+};
+
+// Typical spread of each ratio; larger spreads weigh a feature less
+const SPREAD = {
+  lengthToWidth: 0.12,
+  foreheadToCheek: 0.06,
+  jawToCheek: 0.06
+};
+
+/**
+ * Compute shape ratios from face widths
+ */
+export function computeShapeRatios(widths: {
+  faceWidth: number;
+  faceHeight: number;
+  foreheadWidth: number;
+  cheekboneWidth: number;
+  jawWidth: number;
+}): FaceShapeRatios {
+  return {
+    lengthToWidth: widths.faceHeight / widths.faceWidth,
+    foreheadToCheek: widths.foreheadWidth / widths.cheekboneWidth,
+    jawToCheek: widths.jawWidth / widths.cheekboneWidth,
+    jawToForehead: widths.jawWidth / widths.foreheadWidth
+  };
+}
+
+/**
+ * Classify face shape by distance to each prototype.
+ * Confidences are a softmax over negative squared distances.
+ */
+export function classifyFaceShape(ratios: FaceShapeRatios): FaceShapeResult {
+  const logits = FACE_SHAPES.map((shape) => {
+    const p = PROTOTYPES[shape];
+    const dl = (ratios.lengthToWidth - p.lengthToWidth) / SPREAD.lengthToWidth;
+    const df = (ratios.foreheadToCheek - p.foreheadToCheek) / SPREAD.foreheadToCheek;
+    const dj = (ratios.jawToCheek - p.jawToCheek) / SPREAD.jawToCheek;
+    return -(dl * dl + df * df + dj * dj) / 2;
+  });
+
+  // Subtract the max for numerical stability
+  const max = Math.max(...logits);
+  const exps = logits.map(l => Math.exp(l - max));
+  const total = exps.reduce((a, b) => a + b, 0);
+
+  const scores = {} as Record<FaceShape, number>;
+  let best: FaceShape = FACE_SHAPES[0];
+  FACE_SHAPES.forEach((shape, i) => {
+    scores[shape] = exps[i] / total;
+    if (scores[shape] > scores[best]) {
+      best = shape;
+    }
+  });
+
+  return {
+    shape: best,
+    confidence: scores[best],
+    scores,
+    ratios
+  };
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTER_OPTIONS, KalmanFilter1D } from './filters.ts';
+
+describe('KalmanFilter1D', () => {
+  it('settles on a step change within about 5 samples with the default noise', () => {
+    const filter = new KalmanFilter1D(DEFAULT_FILTER_OPTIONS.kalman);
+    for (let i = 0; i < 30; i++) filter.filter(0.14);
+
+    const steps: number[] = [];
+    for (let i = 0; i < 6; i++) steps.push(filter.filter(0.16));
+    const settled = steps.findIndex(value => Math.abs(value - 0.16) <= 0.05 * 0.02);
+    expect(settled).toBeGreaterThanOrEqual(0);
+    expect(settled).toBeLessThan(6);
+  });
+
+  it('smooths noise around a constant value', () => {
+    const filter = new KalmanFilter1D(DEFAULT_FILTER_OPTIONS.kalman);
+    const noise = [0.003, -0.002, 0.004, -0.003, 0.001, -0.004, 0.002, -0.001];
+    const outputs = noise.map(n => filter.filter(0.14 + n) - 0.14);
+    const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+    expect(spread(outputs.slice(2))).toBeLessThan(spread(noise.slice(2)));
+  });
+});
@@ -0,0 +1,387 @@
+// src/filters.ts - Temporal filtering and robust statistics for measurements
+
+import type { FaceMeasurements } from './faceMeasurement.ts';
+
+export type TemporalFilterMode = 'none' | 'one-euro' | 'kalman';
+
+export interface OneEuroOptions {
+  minCutoff: number;   // Hz, lower = smoother when still
+  beta: number;        // Speed coefficient, higher = less lag when moving
+  dCutoff: number;     // Hz, cutoff for the derivative
+}
+
+/**
+ * The steady-state gain depends on processNoise / measurementNoise. The
+ * defaults (0.4) give a gain of ~0.46, so a step change is 95% settled after
+ * about 5 samples (~5s at one measurement per second).
+ */
+export interface KalmanOptions {
+  processNoise: number;      // How fast the true value may drift
+  measurementNoise: number;  // Noise of a full-confidence sample
+}
+
+export interface MeasurementFilterOptions {
+  mode: TemporalFilterMode;
+  windowSize: number;            // Samples kept for outlier rejection and variance
+  outlierThreshold: number;      // Reject samples further than this many MADs from the median
+  minConfidence: number;         // Samples below this confidence are ignored
+  convergenceThreshold: number;  // Max coefficient of variation to count as converged
+  oneEuro: OneEuroOptions;
+  kalman: KalmanOptions;
+}
+
+export const DEFAULT_FILTER_OPTIONS: MeasurementFilterOptions = {
+  mode: 'kalman',
+  windowSize: 10,
+  outlierThreshold: 3,
+  minConfidence: 0.3,
+  convergenceThreshold: 0.02,
+  oneEuro: { minCutoff: 0.5, beta: 0.05, dCutoff: 1.0 },
+  kalman: { processNoise: 4e-6, measurementNoise: 1e-5 }
+};
+
+export const FILTERED_METRICS = [
+  'faceWidth',
+  'eyeDistance',
+  'noseWidth',
+  'faceHeight',
+  'foreheadWidth',
+  'cheekboneWidth',
+  'jawWidth'
+] as const;
+
+export type FilteredMetric = typeof FILTERED_METRICS[number];
+
+// Metrics every sample has; used for outlier rejection
+const CORE_METRICS: FilteredMetric[] = ['faceWidth', 'eyeDistance', 'noseWidth', 'faceHeight'];
+
+export interface MeasurementStats {
+  samples: number;       // Samples in the window
+  inliers: number;       // Samples that passed outlier rejection
+  variance: Partial<Record<FilteredMetric, number>>;
+  converged: boolean;    // All metrics below the convergence threshold
+}
+
+export interface OneEuroState {
+  value: number | null;
+  derivative: number;
+  time: number;
+}
+
+export interface KalmanState {
+  estimate: number | null;
+  errorCovariance: number;
+}
+
+/**
+ * Everything a MeasurementFilter carries between samples (for session replay)
+ */
+export interface MeasurementFilterState {
+  options: MeasurementFilterOptions;
+  oneEuro: Partial<Record<FilteredMetric, OneEuroState>>;
+  kalman: Partial<Record<FilteredMetric, KalmanState>>;
+}
+
+// Scale factor making MAD a consistent estimator of the standard deviation
+const MAD_SCALE = 1.4826;
+
+export function median(values: number[]): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Median absolute deviation
+ */
+export function medianAbsoluteDeviation(values: number[], center: number = median(values)): number {
+  return median(values.map(v => Math.abs(v - center)));
+}
+
+export function weightedMean(values: number[], weights: number[]): number {
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (total <= 0) {
+    return values.reduce((a, b) => a + b, 0) / values.length;
+  }
+  return values.reduce((acc, v, i) => acc + v * weights[i], 0) / total;
+}
+
+export function weightedVariance(values: number[], weights: number[], mean: number = weightedMean(values, weights)): number {
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (total <= 0 || values.length < 2) {
+    return 0;
+  }
+  return values.reduce((acc, v, i) => acc + weights[i] * (v - mean) ** 2, 0) / total;
+}
+
+/**
+ * One Euro filter (Casiez et al. 2012): adaptive low-pass that smooths
+ * jitter when still and reduces lag when moving
+ */
+export class OneEuroFilter {
+  private options: OneEuroOptions;
+  private lastValue: number | null = null;
+  private lastDerivative: number = 0;
+  private lastTime: number = 0;
+
+  constructor(options: OneEuroOptions) {
+    this.options = options;
+  }
+
+  private alpha(cutoff: number, dt: number): number {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+  }
+
+  /**
+   * @param value - New sample
+   * @param timestampMs - Sample time in milliseconds
+   * @param confidence - Scales how much the sample moves the output (0-1)
+   */
+  filter(value: number, timestampMs: number, confidence: number = 1): number {
+    if (this.lastValue === null) {
+      this.lastValue = value;
+      this.lastTime = timestampMs;
+      return value;
+    }
+
+    const dt = Math.max((timestampMs - this.lastTime) / 1000, 1e-3);
+    const derivative = (value - this.lastValue) / dt;
+    const aD = this.alpha(this.options.dCutoff, dt);
+    this.lastDerivative = aD * derivative + (1 - aD) * this.lastDerivative;
+
+    const cutoff = this.options.minCutoff + this.options.beta * Math.abs(this.lastDerivative);
+    const a = this.alpha(cutoff, dt) * Math.max(0, Math.min(1, confidence));
+    this.lastValue = a * value + (1 - a) * this.lastValue;
+    this.lastTime = timestampMs;
+    return this.lastValue;
+  }
+
+  value(): number | null {
+    return this.lastValue;
+  }
+
+  getState(): OneEuroState {
+    return { value: this.lastValue, derivative: this.lastDerivative, time: this.lastTime };
+  }
+
+  restoreState(state: OneEuroState) {
+    this.lastValue = state.value;
+    this.lastDerivative = state.derivative;
+    this.lastTime = state.time;
+  }
+
+  reset() {
+    this.lastValue = null;
+    this.lastDerivative = 0;
+  }
+}
+
+/**
+ * Scalar Kalman filter with a constant-value model.
+ * Low-confidence samples are treated as noisier measurements.
+ */
+export class KalmanFilter1D {
+  private options: KalmanOptions;
+  private estimate: number | null = null;
+  private errorCovariance: number = 1;
+
+  constructor(options: KalmanOptions) {
+    this.options = options;
+  }
+
+  filter(value: number, confidence: number = 1): number {
+    if (this.estimate === null) {
+      this.estimate = value;
+      this.errorCovariance = this.options.measurementNoise;
+      return value;
+    }
+
+    // Predict
+    this.errorCovariance += this.options.processNoise;
+
+    // Update
+    const noise = this.options.measurementNoise / Math.max(confidence, 1e-3);
+    const gain = this.errorCovariance / (this.errorCovariance + noise);
+    this.estimate += gain * (value - this.estimate);
+    this.errorCovariance *= 1 - gain;
+    return this.estimate;
+  }
+
+  value(): number | null {
+    return this.estimate;
+  }
+
+  getState(): KalmanState {
+    return { estimate: this.estimate, errorCovariance: this.errorCovariance };
+  }
+
+  restoreState(state: KalmanState) {
+    this.estimate = state.estimate;
+    this.errorCovariance = state.errorCovariance;
+  }
+
+  reset() {
+    this.estimate = null;
+    this.errorCovariance = 1;
+  }
+}
+
+/**
+ * Filters a stream of FaceMeasurements: rejects outliers against the recent
+ * window (median/MAD), runs a per-metric temporal filter on inliers, and
+ * summarizes the window with confidence-weighted means and variances.
+ */
+export class MeasurementFilter {
+  private options: MeasurementFilterOptions;
+  private oneEuro = new Map<FilteredMetric, OneEuroFilter>();
+  private kalman = new Map<FilteredMetric, KalmanFilter1D>();
+
+  constructor(options: Partial<MeasurementFilterOptions> = {}) {
+    this.options = { ...DEFAULT_FILTER_OPTIONS, ...options };
+  }
+
+  getOptions(): MeasurementFilterOptions {
+    return this.options;
+  }
+
+  setOptions(options: Partial<MeasurementFilterOptions>) {
+    this.options = { ...this.options, ...options };
+    this.reset();
+  }
+
+  /**
+   * Whether a sample is an outlier relative to the given window
+   */
+  isOutlier(sample: FaceMeasurements, window: FaceMeasurements[]): boolean {
+    if (window.length < 3) {
+      return false;
+    }
+    return CORE_METRICS.some((key) => {
+      const values = window.map(m => m[key] as number);
+      const center = median(values);
+      const spread = medianAbsoluteDeviation(values, center) * MAD_SCALE;
+      // Allow a small floor so a perfectly still window doesn't reject everything
+      const limit = Math.max(spread * this.options.outlierThreshold, Math.abs(center) * 0.01);
+      return Math.abs((sample[key] as number) - center) > limit;
+    });
+  }
+
+  /**
+   * Feed an accepted sample into the temporal filters
+   */
+  update(sample: FaceMeasurements) {
+    if (sample.confidence < this.options.minConfidence) {
+      return;
+    }
+
+    FILTERED_METRICS.forEach((key) => {
+      const value = sample[key];
+      if (value === undefined) return;
+
+      if (this.options.mode === 'one-euro') {
+        if (!this.oneEuro.has(key)) this.oneEuro.set(key, new OneEuroFilter(this.options.oneEuro));
+        this.oneEuro.get(key)!.filter(value, sample.timestamp, sample.confidence);
+      } else if (this.options.mode === 'kalman') {
+        if (!this.kalman.has(key)) this.kalman.set(key, new KalmanFilter1D(this.options.kalman));
+        this.kalman.get(key)!.filter(value, sample.confidence);
+      }
+    });
+  }
+
+  /**
+   * Combine a window of samples into one filtered measurement with stats
+   */
+  summarize(window: FaceMeasurements[]): FaceMeasurements | null {
+    if (window.length === 0) {
+      return null;
+    }
+
+    // Reject outliers relative to the rest of the window
+    let inliers = window.filter((m, i) => !this.isOutlier(m, window.filter((_, j) => j !== i)));
+    const confident = inliers.filter(m => m.confidence >= this.options.minConfidence);
+    if (confident.length > 0) {
+      inliers = confident;
+    }
+    if (inliers.length === 0) {
+      inliers = window;
+    }
+
+    const weights = inliers.map(m => m.confidence);
+    const variance: Partial<Record<FilteredMetric, number>> = {};
+    const values: Partial<Record<FilteredMetric, number>> = {};
+    let converged = inliers.length >= 3;
+
+    FILTERED_METRICS.forEach((key) => {
+      const present = inliers.filter(m => m[key] !== undefined);
+      if (present.length === 0) return;
+
+      const samples = present.map(m => m[key] as number);
+      const sampleWeights = present.map(m => m.confidence);
+      const mean = weightedMean(samples, sampleWeights);
+      variance[key] = weightedVariance(samples, sampleWeights, mean);
+      values[key] = this.filteredValue(key) ?? mean;
+
+      if (mean !== 0 && Math.sqrt(variance[key]!) / Math.abs(mean) > this.options.convergenceThreshold) {
+        converged = false;
+      }
+    });
+
+    const stats: MeasurementStats = {
+      samples: window.length,
+      inliers: inliers.length,
+      variance,
+      converged
+    };
+
+    return {
+      faceWidth: values.faceWidth!,
+      eyeDistance: values.eyeDistance!,
+      noseWidth: values.noseWidth!,
+      faceHeight: values.faceHeight!,
+      foreheadWidth: values.foreheadWidth,
+      cheekboneWidth: values.cheekboneWidth,
+      jawWidth: values.jawWidth,
+      confidence: weights.reduce((a, b) => a + b, 0) / weights.length,
+      timestamp: window[window.length - 1].timestamp,
+      stats
+    };
+  }
+
+  private filteredValue(key: FilteredMetric): number | null {
+    if (this.options.mode === 'one-euro') {
+      return this.oneEuro.get(key)?.value() ?? null;
+    }
+    if (this.options.mode === 'kalman') {
+      return this.kalman.get(key)?.value() ?? null;
+    }
+    return null;
+  }
+
+  getState(): MeasurementFilterState {
+    const state: MeasurementFilterState = { options: structuredClone(this.options), oneEuro: {}, kalman: {} };
+    this.oneEuro.forEach((filter, key) => state.oneEuro[key] = filter.getState());
+    this.kalman.forEach((filter, key) => state.kalman[key] = filter.getState());
+    return state;
+  }
+
+  restoreState(state: MeasurementFilterState) {
+    this.setOptions(state.options);
+    (Object.keys(state.oneEuro) as FilteredMetric[]).forEach((key) => {
+      const filter = new OneEuroFilter(this.options.oneEuro);
+      filter.restoreState(state.oneEuro[key]!);
+      this.oneEuro.set(key, filter);
+    });
+    (Object.keys(state.kalman) as FilteredMetric[]).forEach((key) => {
+      const filter = new KalmanFilter1D(this.options.kalman);
+      filter.restoreState(state.kalman[key]!);
+      this.kalman.set(key, filter);
+    });
+  }
+
+  reset() {
+    this.oneEuro.clear();
+    this.kalman.clear();
+  }
+}
@@ -0,0 +1,247 @@
+// src/gestureControls.ts - Drag, pinch and twist the glasses directly on the AR view
+
+import { clampSettings, type GlassesSettings } from './settings.ts';
+
+export interface ScreenVector {
+  x: number;
+  y: number;
+}
+
+/**
+ * On-screen offset (CSS pixels, y down) of one unit along the glasses' X and Y axes
+ */
+export interface ScreenAxes {
+  x: ScreenVector;
+  y: ScreenVector;
+}
+
+export interface GestureControlsOptions {
+  getSettings: () => GlassesSettings;
+  applySettings: (settings: Partial<GlassesSettings>) => void;
+  getScreenAxes?: () => ScreenAxes | null;      // Keeps the glasses under the finger while tracking
+}
+
+// Used while no face is tracked: one unit ≈ face width ≈ half the view height
+const FALLBACK_UNIT_FRACTION = 0.5;
+
+const WHEEL_ZOOM_PER_PIXEL = 0.0015;    // Scale factor exponent per wheel pixel
+const WHEEL_ROLL_PER_PIXEL = 0.05;      // Degrees per wheel pixel with Shift held
+const WHEEL_LINE_PIXELS = 16;           // deltaMode: lines
+
+const KEY_NUDGE_PIXELS = 4;             // Arrow keys
+const KEY_ZOOM = 1.05;                  // + / -
+const KEY_ROLL = 1;                     // [ / ] in degrees
+
+interface Gesture {
+  settings: GlassesSettings;
+  pointers: ScreenVector[];
+  axes: ScreenAxes;
+}
+
+/**
+ * One-finger drag moves the glasses (posX/posY), pinch scales them and a
+ * two-finger twist rolls them (rotZ). On desktop the wheel scales (Shift+wheel
+ * rolls) and the arrow, +/- and [/] keys nudge. Results are clamped to the
+ * slider ranges and go through the same settings path as the sliders.
+ */
+export class GestureControls {
+  private options: GestureControlsOptions;
+  private target: HTMLElement | null = null;
+  private pointers = new Map<number, ScreenVector>();
+  private gesture: Gesture | null = null;
+  private detach: (() => void)[] = [];
+
+  constructor(options: GestureControlsOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Listen for gestures on the AR view and keys on the document
+   */
+  mount(target: HTMLElement) {
+    this.dispose();
+    this.target = target;
+    target.style.touchAction = 'none'; // No browser panning or zooming over the view
+
+    const listen = <K extends keyof HTMLElementEventMap>(
+      element: HTMLElement | Document,
+      type: K,
+      handler: (event: HTMLElementEventMap[K]) => void,
+      options?: AddEventListenerOptions
+    ) => {
+      element.addEventListener(type, handler as EventListener, options);
+      this.detach.push(() => element.removeEventListener(type, handler as EventListener, options));
+    };
+
+    listen(target, 'pointerdown', e => this.onPointerDown(e));
+    listen(target, 'pointermove', e => this.onPointerMove(e));
+    listen(target, 'pointerup', e => this.onPointerUp(e));
+    listen(target, 'pointercancel', e => this.onPointerUp(e));
+    listen(target, 'wheel', e => this.onWheel(e), { passive: false });
+    listen(document, 'keydown', e => this.onKeyDown(e));
+  }
+
+  dispose() {
+    this.detach.forEach(remove => remove());
+    this.detach = [];
+    this.pointers.clear();
+    this.gesture = null;
+    this.target = null;
+  }
+
+  // ===== Pointer gestures =====
+
+  private onPointerDown(event: PointerEvent) {
+    if (event.pointerType === 'mouse' && event.button !== 0) return;
+    this.target?.setPointerCapture(event.pointerId);
+    this.pointers.set(event.pointerId, this.toLocal(event));
+    this.beginGesture();
+  }
+
+  private onPointerMove(event: PointerEvent) {
+    if (!this.pointers.has(event.pointerId) || !this.gesture) return;
+    this.pointers.set(event.pointerId, this.toLocal(event));
+
+    const start = this.gesture.pointers;
+    const current = [...this.pointers.values()];
+    if (current.length === 1) {
+      this.drag(current[0].x - start[0].x, current[0].y - start[0].y);
+    } else {
+      this.pinch(start[0], start[1], current[0], current[1]);
+    }
+  }
+
+  private onPointerUp(event: PointerEvent) {
+    if (!this.pointers.delete(event.pointerId)) return;
+    // Continue with the remaining finger from where the glasses are now
+    if (this.pointers.size > 0) {
+      this.beginGesture();
+    } else {
+      this.gesture = null;
+    }
+  }
+
+  /**
+   * Gestures are relative to the settings and finger positions when they
+   * start, so clamping at a range limit doesn't make the glasses drift
+   */
+  private beginGesture() {
+    this.gesture = {
+      settings: this.options.getSettings(),
+      pointers: [...this.pointers.values()].slice(0, 2),
+      axes: this.getAxes()
+    };
+  }
+
+  private drag(dx: number, dy: number) {
+    const { settings, axes } = this.gesture!;
+    const delta = toUnits(axes, dx, dy);
+    this.apply({ posX: settings.posX + delta.x, posY: settings.posY + delta.y });
+  }
+
+  private pinch(startA: ScreenVector, startB: ScreenVector, a: ScreenVector, b: ScreenVector) {
+    const { settings, axes } = this.gesture!;
+    const startDistance = Math.hypot(startB.x - startA.x, startB.y - startA.y);
+    const distance = Math.hypot(b.x - a.x, b.y - a.y);
+    if (startDistance < 1) return;
+
+    const twist = Math.atan2(b.y - a.y, b.x - a.x) - Math.atan2(startB.y - startA.y, startB.x - startA.x);
+    this.apply({
+      scale: settings.scale * distance / startDistance,
+      rotZ: settings.rotZ + toRoll(axes, normalizeAngle(twist) * 180 / Math.PI)
+    });
+  }
+
+  // ===== Desktop equivalents =====
+
+  private onWheel(event: WheelEvent) {
+    event.preventDefault();
+    const pixels = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * WHEEL_LINE_PIXELS : event.deltaY;
+    const settings = this.options.getSettings();
+    if (event.shiftKey) {
+      this.apply({ rotZ: settings.rotZ + toRoll(this.getAxes(), pixels * WHEEL_ROLL_PER_PIXEL) });
+    } else {
+      // Trackpad pinch arrives as a wheel event with ctrlKey set and zooms the same way
+      this.apply({ scale: settings.scale * Math.exp(-pixels * WHEEL_ZOOM_PER_PIXEL) });
+    }
+  }
+
+  private onKeyDown(event: KeyboardEvent) {
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    const element = event.target as HTMLElement | null;
+    if (element?.closest?.('input, select, textarea, button, [contenteditable]')) return;
+
+    const settings = this.options.getSettings();
+    const nudge = (dx: number, dy: number) => {
+      const delta = toUnits(this.getAxes(), dx * KEY_NUDGE_PIXELS, dy * KEY_NUDGE_PIXELS);
+      return { posX: settings.posX + delta.x, posY: settings.posY + delta.y };
+    };
+
+    let change: Partial<GlassesSettings> | null = null;
+    switch (event.key) {
+      case 'ArrowLeft': change = nudge(-1, 0); break;
+      case 'ArrowRight': change = nudge(1, 0); break;
+      case 'ArrowUp': change = nudge(0, -1); break;
+      case 'ArrowDown': change = nudge(0, 1); break;
+      case '+':
+      case '=': change = { scale: settings.scale * KEY_ZOOM }; break;
+      case '-': change = { scale: settings.scale / KEY_ZOOM }; break;
+      case '[': change = { rotZ: settings.rotZ + toRoll(this.getAxes(), -KEY_ROLL) }; break;
+      case ']': change = { rotZ: settings.rotZ + toRoll(this.getAxes(), KEY_ROLL) }; break;
+    }
+    if (change) {
+      event.preventDefault();
+      this.apply(change);
+    }
+  }
+
+  // ===== Helpers =====
+
+  private apply(settings: Partial<GlassesSettings>) {
+    this.options.applySettings(clampSettings(settings));
+  }
+
+  private toLocal(event: PointerEvent): ScreenVector {
+    const rect = this.target!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  }
+
+  /**
+   * Screen axes of the glasses, or an upright unmirrored estimate
+   */
+  private getAxes(): ScreenAxes {
+    const axes = this.options.getScreenAxes?.();
+    if (axes && Math.abs(determinant(axes)) > 1e-6) {
+      return axes;
+    }
+    const unit = (this.target?.clientHeight || window.innerHeight) * FALLBACK_UNIT_FRACTION;
+    return { x: { x: unit, y: 0 }, y: { x: 0, y: -unit } };
+  }
+}
+
+function determinant(axes: ScreenAxes): number {
+  return axes.x.x * axes.y.y - axes.y.x * axes.x.y;
+}
+
+/**
+ * Convert a screen offset in pixels to glasses X/Y units
+ */
+function toUnits(axes: ScreenAxes, dx: number, dy: number): ScreenVector {
+  const det = determinant(axes);
+  return {
+    x: (dx * axes.y.y - dy * axes.y.x) / det,
+    y: (dy * axes.x.x - dx * axes.x.y) / det
+  };
+}
+
+/**
+ * Convert a clockwise on-screen rotation (degrees) to a rotZ change.
+ * rotZ turns counter-clockwise on an upright view and clockwise on a mirrored one.
+ */
+function toRoll(axes: ScreenAxes, clockwise: number): number {
+  return Math.sign(determinant(axes)) * clockwise;
+}
+
+function normalizeAngle(radians: number): number {
+  return Math.atan2(Math.sin(radians), Math.cos(radians));
+}
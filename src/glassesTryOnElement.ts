@@ -0,0 +1,284 @@
+// src/glassesTryOnElement.ts - Embeddable <glasses-tryon> custom element
+
+import { TryOnController, type TryOnEvents } from './tryOnController.ts';
+import { DEFAULT_SETTINGS, SETTINGS_RANGES, mergeSettings, type GlassesSettings } from './settings.ts';
+import type { Unsubscribe } from './eventEmitter.ts';
+
+export const GLASSES_TRYON_TAG = 'glasses-tryon';
+const DEFAULT_MODEL = '/models/glasses.glb';
+const STYLE_ID = 'glasses-tryon-style';
+
+/**
+ * Controller events re-dispatched as DOM CustomEvents (`tryon-<name>`)
+ */
+const FORWARDED_EVENTS: Record<string, keyof TryOnEvents> = {
+  'tryon-face-found': 'faceFound',
+  'tryon-face-lost': 'faceLost',
+  'tryon-measurement': 'measurement',
+  'tryon-adjustment': 'adjustment',
+  'tryon-model-loaded': 'modelLoaded',
+  'tryon-settings-changed': 'settingsChanged'
+};
+
+const SLIDERS: { key: keyof GlassesSettings; label: string; min: number; max: number; step: number }[] = [
+  { key: 'posX', label: 'Position X', ...SETTINGS_RANGES.posX },
+  { key: 'posY', label: 'Position Y', ...SETTINGS_RANGES.posY },
+  { key: 'posZ', label: 'Position Z', ...SETTINGS_RANGES.posZ },
+  { key: 'scale', label: 'Scale', ...SETTINGS_RANGES.scale },
+  { key: 'rotX', label: 'Tilt', ...SETTINGS_RANGES.rotX },
+  { key: 'rotY', label: 'Rotation Y', ...SETTINGS_RANGES.rotY },
+  { key: 'rotZ', label: 'Roll', ...SETTINGS_RANGES.rotZ }
+];
+
+const STYLES = `
+  glasses-tryon {
+    display: block;
+    position: relative;
+    width: 100%;
+    height: 480px;
+    overflow: hidden;
+  }
+  glasses-tryon a-scene {
+    width: 100% !important;
+    height: 100% !important;
+    display: block !important;
+  }
+  glasses-tryon .tryon-controls {
+    position: absolute;
+    top: 10px;
+    left: 10px;
+    z-index: 1000;
+    background: rgba(0, 0, 0, 0.7);
+    color: white;
+    padding: 10px;
+    border-radius: 8px;
+    font: 12px Arial, sans-serif;
+    max-width: 220px;
+  }
+  glasses-tryon .tryon-controls[hidden] {
+    display: none;
+  }
+  glasses-tryon .tryon-controls label {
+    display: block;
+    margin-bottom: 6px;
+  }
+  glasses-tryon .tryon-controls input[type="range"] {
+    width: 100%;
+  }
+`;
+
+function injectStyles() {
+  if (document.getElementById(STYLE_ID)) {
+    return;
+  }
+  const style = document.createElement('style');
+  style.id = STYLE_ID;
+  style.textContent = STYLES;
+  document.head.appendChild(style);
+}
+
+/**
+ * Self-contained try-on for product pages. Each instance owns its own
+ * A-Frame scene and TryOnController.
+ *
+ * Attributes:
+ * - `model`: GLB URL of the frame
+ * - `settings`: initial GlassesSettings as JSON (partial allowed)
+ * - `auto-adjust`: enable face-based auto-adjustment
+ * - `auto-scale`: also adjust scale automatically
+ * - `controls`: show the adjustment panel
+ */
+export class GlassesTryOnElement extends HTMLElement {
+  static get observedAttributes() {
+    return ['model', 'settings', 'auto-adjust', 'auto-scale', 'auto-rotate', 'controls'];
+  }
+
+  private controller: TryOnController | null = null;
+  private sceneEl: any = null;
+  private glassesEntity: any = null;
+  private controlsEl: HTMLElement | null = null;
+  private subscriptions: Unsubscribe[] = [];
+
+  /**
+   * The instance's controller (null while disconnected)
+   */
+  get tryOn(): TryOnController | null {
+    return this.controller;
+  }
+
+  connectedCallback() {
+    if (this.controller) return;
+    injectStyles();
+
+    const controller = new TryOnController();
+    this.controller = controller;
+
+    Object.entries(FORWARDED_EVENTS).forEach(([domEvent, event]) => {
+      this.subscriptions.push(controller.on(event, (detail) => {
+        this.dispatchEvent(new CustomEvent(domEvent, { detail, bubbles: true, composed: true }));
+      }));
+    });
+    this.subscriptions.push(controller.on('settingsChanged', ({ settings }) => this.updateControls(settings)));
+
+    this.render();
+
+    const start = () => {
+      if (this.controller !== controller) return;
+      controller.attach(this.sceneEl, this.querySelector('.tryon-anchor'), this.glassesEntity);
+      controller.setSettings(this.getInitialSettings(), 'api');
+      controller.setAutoScaleEnabled(this.hasAttribute('auto-scale'));
+      controller.setAutoRotationEnabled(this.hasAttribute('auto-rotate'));
+      if (this.hasAttribute('auto-adjust')) {
+        controller.enableAutoAdjust();
+      }
+    };
+    if (this.sceneEl.hasLoaded) {
+      start();
+    } else {
+      this.sceneEl.addEventListener('loaded', start, { once: true });
+    }
+    console.log('🕶️ <glasses-tryon> connected');
+  }
+
+  disconnectedCallback() {
+    if (!this.controller) return;
+
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions = [];
+    this.controller.dispose();
+    this.controller = null;
+
+    // Stop the camera and release the WebGL context
+    try {
+      this.sceneEl?.systems?.['mindar-face-system']?.stop();
+    } catch (error) {
+      console.warn('⚠️ Failed to stop MindAR:', error);
+    }
+    this.sceneEl?.renderer?.dispose();
+    this.replaceChildren();
+    this.sceneEl = null;
+    this.glassesEntity = null;
+    this.controlsEl = null;
+    console.log('🧹 <glasses-tryon> disconnected');
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null) {
+    if (!this.controller || oldValue === newValue) return;
+
+    switch (name) {
+      case 'model':
+        this.glassesEntity?.setAttribute('gltf-model', `url(${this.getModelUrl()})`);
+        break;
+      case 'settings':
+        this.controller.setSettings(this.getInitialSettings(), 'api');
+        break;
+      case 'auto-adjust':
+        if (newValue !== null) {
+          this.controller.enableAutoAdjust();
+        } else {
+          this.controller.disableAutoAdjust();
+        }
+        break;
+      case 'auto-scale':
+        this.controller.setAutoScaleEnabled(newValue !== null);
+        break;
+      case 'auto-rotate':
+        this.controller.setAutoRotationEnabled(newValue !== null);
+        break;
+      case 'controls':
+        if (this.controlsEl) this.controlsEl.hidden = newValue === null;
+        break;
+    }
+  }
+
+  private getModelUrl(): string {
+    return this.getAttribute('model') || DEFAULT_MODEL;
+  }
+
+  private getInitialSettings(): GlassesSettings {
+    const raw = this.getAttribute('settings');
+    if (!raw) {
+      return { ...DEFAULT_SETTINGS };
+    }
+    try {
+      return mergeSettings(DEFAULT_SETTINGS, JSON.parse(raw));
+    } catch (error) {
+      console.warn('⚠️ Invalid settings attribute:', error);
+      return { ...DEFAULT_SETTINGS };
+    }
+  }
+
+  /**
+   * Build the scene and controls inside the element
+   */
+  private render() {
+    const settings = this.getInitialSettings();
+
+    const controls = document.createElement('div');
+    controls.className = 'tryon-controls';
+    controls.hidden = !this.hasAttribute('controls');
+    SLIDERS.forEach(({ key, label, min, max, step }) => {
+      const wrapper = document.createElement('label');
+      wrapper.innerHTML = `${label}: <span data-value="${key}"></span>`;
+      const input = document.createElement('input');
+      input.type = 'range';
+      input.min = String(min);
+      input.max = String(max);
+      input.step = String(step);
+      input.dataset.setting = key;
+      input.addEventListener('input', () => {
+        this.controller?.setSettings({ [key]: parseFloat(input.value) }, 'user');
+      });
+      wrapper.appendChild(input);
+      controls.appendChild(wrapper);
+    });
+    this.controlsEl = controls;
+
+    const scene = document.createElement('a-scene');
+    scene.setAttribute('mindar-face', '');
+    scene.setAttribute('embedded', '');
+    scene.setAttribute('color-space', 'sRGB');
+    scene.setAttribute('renderer', 'colorManagement: true, physicallyCorrectLights: true, alpha: true, antialias: true, sortObjects: true');
+    scene.setAttribute('vr-mode-ui', 'enabled: false');
+    scene.setAttribute('device-orientation-permission-ui', 'enabled: false');
+    scene.innerHTML = `
+      <a-camera active="false" position="0 0 0"></a-camera>
+      <a-entity class="tryon-anchor" mindar-face-target="anchorIndex: 168">
+        <a-entity class="tryon-glasses"></a-entity>
+      </a-entity>
+      <a-light type="ambient" intensity="1.5"></a-light>
+      <a-light type="directional" position="3 3 4" intensity="2.0"></a-light>
+      <a-light type="directional" position="-3 2 3" intensity="1.5"></a-light>
+      <a-light type="point" position="0 0.5 0" intensity="1.2"></a-light>
+    `;
+    this.sceneEl = scene;
+    this.glassesEntity = scene.querySelector('.tryon-glasses');
+    this.glassesEntity.setAttribute('gltf-model', `url(${this.getModelUrl()})`);
+    this.glassesEntity.setAttribute('position', `${settings.posX} ${settings.posY} ${settings.posZ}`);
+    this.glassesEntity.setAttribute('scale', `${settings.scale} ${settings.scale} ${settings.scale}`);
+
+    this.replaceChildren(controls, scene);
+    this.updateControls(settings);
+  }
+
+  private updateControls(settings: GlassesSettings) {
+    if (!this.controlsEl) return;
+    SLIDERS.forEach(({ key }) => {
+      const input = this.controlsEl!.querySelector<HTMLInputElement>(`[data-setting="${key}"]`);
+      const value = this.controlsEl!.querySelector(`[data-value="${key}"]`);
+      if (input) input.value = settings[key].toString();
+      if (value) value.textContent = settings[key].toFixed(2);
+    });
+  }
+}
+
+/**
+ * Define the `<glasses-tryon>` element. Needs A-Frame and MindAR loaded first.
+ */
+export function registerGlassesTryOn(tagName: string = GLASSES_TRYON_TAG) {
+  if (customElements.get(tagName)) {
+    return;
+  }
+  customElements.define(tagName, GlassesTryOnElement);
+  console.log(`🕶️ <${tagName}> registered`);
+}
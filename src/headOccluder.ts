@@ -0,0 +1,164 @@
+// src/headOccluder.ts - Depth-only head mesh that hides temples behind the head
+
+import { Group, Mesh, MeshBasicMaterial, SphereGeometry } from 'three';
+import type { FaceMeasurements, LandmarkPoint } from './faceMeasurement.ts';
+
+/**
+ * parametric: ellipsoid head with ears, sized from face measurements
+ * face-mesh: MindAR's live face mesh (covers the face only, not the ears)
+ */
+export type OccluderMode = 'parametric' | 'face-mesh';
+
+export interface HeadOccluderOptions {
+  enabled: boolean;
+  mode: OccluderMode;
+  debug: boolean;               // Draw the occluder as a wireframe
+}
+
+export const DEFAULT_HEAD_OCCLUDER: HeadOccluderOptions = {
+  enabled: true,
+  mode: 'parametric',
+  debug: false
+};
+
+// Average face in landmark units, used until measurements arrive (matches AutoAdjuster)
+const DEFAULT_FACE_WIDTH = 0.14;
+const DEFAULT_FACE_HEIGHT = 0.14 * 1.3;
+
+// Head proportions relative to temple-to-temple face width (W) and face height (H)
+const CRANIUM_WIDTH = 0.49;             // Semi-axes: just inside the temples, so arms resting on them stay visible
+const CRANIUM_HEIGHT = 0.6;             // × H
+const CRANIUM_DEPTH = 0.65;             // Head length ≈ 1.3 × breadth
+const CRANIUM_LIFT = 0.1;               // × H, centre above the eye line
+const FACE_INSET = 0.1;                 // Front of the head behind the nose bridge, so lenses stay in front
+const EAR_SIZE: [number, number, number] = [0.05, 0.2, 0.1];
+const EAR_DROP = 0.05;                  // Ear centre below the eye line
+
+const DEBUG_COLOR = 0xff00ff;
+
+/**
+ * Builds the occluder meshes. They write depth but no colour and render
+ * before the glasses, so opaque frames and transparent lenses
+ * (`depthWrite: false`, but still depth-tested) are hidden behind them.
+ */
+export class HeadOccluder {
+  readonly object3D = new Group();
+  private options: HeadOccluderOptions;
+  private material = new MeshBasicMaterial({ colorWrite: false });
+  private head = new Group();
+  private cranium: Mesh;
+  private ears: Mesh[];
+  private faceMesh: Mesh | null = null;
+
+  constructor(options: Partial<HeadOccluderOptions> = {}) {
+    this.options = { ...DEFAULT_HEAD_OCCLUDER, ...options };
+    this.object3D.name = 'head-occluder';
+
+    const sphere = new SphereGeometry(1, 32, 24);
+    this.cranium = this.createMesh(sphere);
+    this.ears = [-1, 1].map(() => this.createMesh(sphere));
+    this.head.add(this.cranium, ...this.ears);
+    this.object3D.add(this.head);
+
+    this.fit(null, 1);
+    this.update();
+  }
+
+  private createMesh(geometry: any): Mesh {
+    const mesh = new Mesh(geometry, this.material);
+    mesh.renderOrder = -1; // Fill the depth buffer before the glasses
+    return mesh;
+  }
+
+  getOptions(): HeadOccluderOptions {
+    return { ...this.options };
+  }
+
+  setOptions(options: Partial<HeadOccluderOptions>) {
+    this.options = { ...this.options, ...options };
+    this.update();
+  }
+
+  private update() {
+    this.object3D.visible = this.options.enabled;
+    this.head.visible = this.options.mode === 'parametric';
+    if (this.faceMesh) {
+      this.faceMesh.visible = this.options.mode === 'face-mesh';
+    }
+
+    this.material.colorWrite = this.options.debug;
+    this.material.wireframe = this.options.debug;
+    this.material.color.set(DEBUG_COLOR);
+    this.material.needsUpdate = true;
+  }
+
+  /**
+   * Size the parametric head from face measurements
+   * @param anchorScale - Landmark units per anchor unit
+   */
+  fit(measurements: FaceMeasurements | null, anchorScale: number) {
+    const width = (measurements?.faceWidth ?? DEFAULT_FACE_WIDTH) / anchorScale;
+    const height = (measurements?.faceHeight ?? DEFAULT_FACE_HEIGHT) / anchorScale;
+
+    const depth = width * CRANIUM_DEPTH;
+    const centreZ = -(depth + width * FACE_INSET);
+    this.cranium.scale.set(width * CRANIUM_WIDTH, height * CRANIUM_HEIGHT, depth);
+    this.cranium.position.set(0, height * CRANIUM_LIFT, centreZ);
+
+    this.ears.forEach((ear, i) => {
+      ear.scale.set(width * EAR_SIZE[0], width * EAR_SIZE[1], width * EAR_SIZE[2]);
+      ear.position.set((i === 0 ? -1 : 1) * width * CRANIUM_WIDTH, -width * EAR_DROP, centreZ);
+    });
+  }
+
+  /**
+   * Use MindAR's face mesh geometry for face-mesh mode. MindAR owns and
+   * updates the geometry, so the occluder never disposes it.
+   */
+  setFaceGeometry(geometry: any) {
+    this.removeFaceMesh();
+    this.faceMesh = this.createMesh(geometry);
+    this.faceMesh.matrixAutoUpdate = false;
+    this.object3D.add(this.faceMesh);
+    this.update();
+  }
+
+  private removeFaceMesh() {
+    if (this.faceMesh) {
+      this.object3D.remove(this.faceMesh);
+      this.faceMesh = null;
+    }
+  }
+
+  hasFaceGeometry(): boolean {
+    return this.faceMesh !== null;
+  }
+
+  /**
+   * Move the face mesh (MindAR centimetres) into anchor space
+   * @param anchorLandmark - The anchor's landmark, in landmark units
+   * @param anchorScale - Landmark units per anchor unit
+   * @param unitScale - Landmark units per MindAR centimetre
+   */
+  placeFaceMesh(anchorLandmark: LandmarkPoint, anchorScale: number, unitScale: number) {
+    if (!this.faceMesh) return;
+    const scale = unitScale / anchorScale;
+    this.faceMesh.matrix.makeScale(scale, scale, scale).setPosition(
+      -anchorLandmark.x / anchorScale,
+      -anchorLandmark.y / anchorScale,
+      -anchorLandmark.z / anchorScale
+    );
+    this.faceMesh.matrixWorldNeedsUpdate = true;
+  }
+
+  /**
+   * Remove from the anchor and free the sphere geometry and material.
+   * The face mesh geometry is MindAR's and is left alone.
+   */
+  dispose() {
+    this.object3D.removeFromParent();
+    this.cranium.geometry.dispose();
+    this.material.dispose();
+    this.removeFaceMesh();
+  }
+}
@@ -0,0 +1,79 @@
+// src/headPose.ts - Head pose from the anchor transform, face-local normalization and pose gating
+
+import { Euler, Matrix4, Quaternion, Vector3 } from 'three';
+import type { LandmarkPoint } from './faceMeasurement.ts';
+
+export interface HeadPose {
+  yaw: number;     // Degrees, rotation about the vertical axis (turning left/right)
+  pitch: number;   // Degrees, rotation about the horizontal axis (nodding)
+  roll: number;    // Degrees, rotation about the viewing axis (tilting)
+}
+
+export interface PoseGateOptions {
+  enabled: boolean;
+  maxYaw: number;    // Degrees
+  maxPitch: number;  // Degrees
+  maxRoll: number;   // Degrees
+}
+
+export const DEFAULT_POSE_GATE: PoseGateOptions = {
+  enabled: true,
+  maxYaw: 15,
+  maxPitch: 15,
+  maxRoll: 20
+};
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+const tmpMatrix = new Matrix4();
+const tmpPosition = new Vector3();
+const tmpScale = new Vector3();
+const tmpEuler = new Euler();
+
+/**
+ * Get the anchor's rotation. MindAR writes the anchor matrix directly
+ * (matrixAutoUpdate is off), so the matrix is decomposed rather than
+ * reading object3D.quaternion.
+ */
+export function getAnchorQuaternion(object3D: any, target: Quaternion = new Quaternion()): Quaternion {
+  tmpMatrix.fromArray(object3D.matrix.elements);
+  tmpMatrix.decompose(tmpPosition, target, tmpScale);
+  return target;
+}
+
+/**
+ * Compute yaw/pitch/roll (degrees) from a rotation
+ */
+export function quaternionToPose(quaternion: Quaternion): HeadPose {
+  tmpEuler.setFromQuaternion(quaternion, 'YXZ');
+  return {
+    yaw: tmpEuler.y * RAD_TO_DEG,
+    pitch: tmpEuler.x * RAD_TO_DEG,
+    roll: tmpEuler.z * RAD_TO_DEG
+  };
+}
+
+/**
+ * Whether a pose is near-frontal enough for sizing
+ */
+export function isWithinPoseGate(pose: HeadPose, gate: PoseGateOptions): boolean {
+  if (!gate.enabled) {
+    return true;
+  }
+  return Math.abs(pose.yaw) <= gate.maxYaw
+    && Math.abs(pose.pitch) <= gate.maxPitch
+    && Math.abs(pose.roll) <= gate.maxRoll;
+}
+
+/**
+ * Rotate camera-space landmarks into the face's local frame
+ * (x: face right, y: face up, z: out of the face)
+ */
+export function toFaceLocal(landmarks: LandmarkPoint[], rotation: Quaternion): LandmarkPoint[] {
+  const inverse = rotation.clone().invert();
+  const v = new Vector3();
+  return landmarks.map((p) => {
+    v.set(p.x, p.y, p.z).applyQuaternion(inverse);
+    return { x: v.x, y: v.y, z: v.z };
+  });
+}
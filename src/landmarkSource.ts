@@ -0,0 +1,294 @@
+// src/landmarkSource.ts - Pluggable providers of the 468-point face mesh
+
+import type { LandmarkPoint } from './faceMeasurement.ts';
+
+/**
+ * Coordinate frame of a source's landmarks:
+ * - 'face': face-local (pose already removed), x right, y up, z out of the face
+ * - 'camera': camera space, x right, y up, z toward the viewer
+ */
+export type LandmarkSpace = 'face' | 'camera';
+
+/**
+ * A provider of face mesh landmarks.
+ * Indices follow the MediaPipe / MindAR face mesh (0-467, plus 468-477 for
+ * iris landmarks when the provider supports them).
+ */
+export interface LandmarkSource {
+  readonly name: string;
+  readonly space: LandmarkSpace;
+
+  /**
+   * Get the most recent set of landmarks, or null if no face is tracked
+   */
+  getLandmarks(): LandmarkPoint[] | null;
+
+  /**
+   * Release any resources held by the source
+   */
+  dispose?(): void;
+}
+
+/**
+ * One recorded frame of landmarks
+ */
+export interface LandmarkFrame {
+  timestamp: number;
+  landmarks: LandmarkPoint[] | null;
+}
+
+/**
+ * Convert a raw `{x, y, z}` array into landmark points, applying a unit scale
+ */
+function toLandmarkPoints(raw: ArrayLike<any>, scaleX: number, scaleY: number = scaleX, scaleZ: number = scaleX): LandmarkPoint[] {
+  const points: LandmarkPoint[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const p = raw[i];
+    // MindAR returns [x, y, z] tuples, MediaPipe returns {x, y, z} objects
+    const x = Array.isArray(p) ? p[0] : p.x;
+    const y = Array.isArray(p) ? p[1] : p.y;
+    const z = Array.isArray(p) ? p[2] : p.z;
+    points.push({ x: x * scaleX, y: y * scaleY, z: z * scaleZ });
+  }
+  return points;
+}
+
+/**
+ * Reads the metric face mesh from MindAR's face controller.
+ *
+ * MindAR estimates `metricLandmarks` in centimetres (canonical face model units),
+ * already aligned to the canonical face, so they are face-local.
+ * By default they are converted to metres so that they line up with the
+ * reference constants used by AutoAdjuster (~0.14 face width).
+ */
+export class MindARLandmarkSource implements LandmarkSource {
+  readonly name = 'mindar';
+  readonly space: LandmarkSpace = 'face';
+  private sceneEl: any;
+  readonly unitScale: number;
+  private latest: LandmarkPoint[] | null = null;
+  private faceScale: number | null = null;
+  private updateCount: number = 0;
+  private hookedController: any = null;
+  private originalOnUpdate: ((data: any) => void) | null = null;
+
+  /**
+   * @param sceneEl - The `<a-scene mindar-face>` element
+   * @param unitScale - Multiplier applied to MindAR's centimetre landmarks (default: cm → m)
+   */
+  constructor(sceneEl: any, unitScale: number = 0.01) {
+    this.sceneEl = sceneEl;
+    this.unitScale = unitScale;
+  }
+
+  /**
+   * Hook into the controller's onUpdate once MindAR has started.
+   * The controller is only created after the camera starts, so this is lazy.
+   */
+  private ensureHooked() {
+    const controller = this.sceneEl?.systems?.['mindar-face-system']?.controller;
+    if (!controller || controller === this.hookedController) {
+      return;
+    }
+
+    this.hookedController = controller;
+    this.originalOnUpdate = controller.onUpdate;
+    controller.onUpdate = (data: any) => {
+      this.updateCount++;
+      if (data?.hasFace && data.estimateResult?.metricLandmarks) {
+        this.latest = toLandmarkPoints(data.estimateResult.metricLandmarks, this.unitScale);
+        this.faceScale = data.estimateResult.faceScale ?? this.faceScale;
+      } else {
+        this.latest = null;
+      }
+      this.originalOnUpdate?.call(controller, data);
+    };
+    console.log('🔗 MindAR landmark source hooked');
+  }
+
+  getLandmarks(): LandmarkPoint[] | null {
+    this.ensureHooked();
+    return this.latest;
+  }
+
+  /**
+   * Number of MindAR estimates so far (with or without a face)
+   */
+  getUpdateCount(): number {
+    this.ensureHooked();
+    return this.updateCount;
+  }
+
+  /**
+   * Landmark units per anchor unit. MindAR scales anchor space by its
+   * estimated face scale, so `(p - p[anchorIndex]) / anchorScale` is a
+   * landmark's position relative to a `mindar-face-target`.
+   */
+  getAnchorScale(): number | null {
+    return this.faceScale !== null ? this.faceScale * this.unitScale : null;
+  }
+
+  /**
+   * MindAR's live face mesh geometry, in its centimetre units.
+   * MindAR updates the vertices on every tracking frame.
+   */
+  createFaceGeometry(): any | null {
+    const controller = this.sceneEl?.systems?.['mindar-face-system']?.controller;
+    const THREE = (window as any).AFRAME?.THREE;
+    if (!controller?.createThreeFaceGeometry || !THREE) {
+      return null;
+    }
+    return controller.createThreeFaceGeometry(THREE);
+  }
+
+  dispose() {
+    if (this.hookedController) {
+      this.hookedController.onUpdate = this.originalOnUpdate;
+      this.hookedController = null;
+      this.originalOnUpdate = null;
+    }
+    this.latest = null;
+    this.faceScale = null;
+  }
+}
+
+export interface MediaPipeLandmarkSourceOptions {
+  /** Base URL of the tasks-vision wasm files */
+  wasmPath?: string;
+  /** URL of the face_landmarker.task model */
+  modelAssetPath?: string;
+  /** Multiplier applied after converting normalized coordinates to pixels */
+  unitScale?: number;
+}
+
+/**
+ * Runs the `@mediapipe/tasks-vision` FaceLandmarker on a video element.
+ * Produces 478 landmarks (face mesh plus iris). Coordinates are converted
+ * from normalized image space into pixels so that x and y share one scale,
+ * with y and z flipped to the camera convention (y up, z toward the viewer).
+ */
+export class MediaPipeLandmarkSource implements LandmarkSource {
+  readonly name = 'mediapipe';
+  readonly space: LandmarkSpace = 'camera';
+  private video: HTMLVideoElement;
+  private options: Required<MediaPipeLandmarkSourceOptions>;
+  private landmarker: any = null;
+  private lastVideoTime: number = -1;
+  private latest: LandmarkPoint[] | null = null;
+
+  constructor(video: HTMLVideoElement, options: MediaPipeLandmarkSourceOptions = {}) {
+    this.video = video;
+    this.options = {
+      wasmPath: options.wasmPath ?? 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision/wasm',
+      modelAssetPath: options.modelAssetPath
+        ?? 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
+      unitScale: options.unitScale ?? 1
+    };
+  }
+
+  /**
+   * Load the wasm runtime and model. Must be awaited before use.
+   */
+  async initialize() {
+    const { FaceLandmarker, FilesetResolver } = await import('@mediapipe/tasks-vision');
+    const fileset = await FilesetResolver.forVisionTasks(this.options.wasmPath);
+    this.landmarker = await FaceLandmarker.createFromOptions(fileset, {
+      baseOptions: { modelAssetPath: this.options.modelAssetPath },
+      runningMode: 'VIDEO',
+      numFaces: 1
+    });
+    console.log('✅ MediaPipe FaceLandmarker ready');
+  }
+
+  getLandmarks(): LandmarkPoint[] | null {
+    if (!this.landmarker || this.video.readyState < 2) {
+      return null;
+    }
+
+    // Only run detection when the video has produced a new frame
+    if (this.video.currentTime !== this.lastVideoTime) {
+      this.lastVideoTime = this.video.currentTime;
+      try {
+        const result = this.landmarker.detectForVideo(this.video, performance.now());
+        const face = result.faceLandmarks?.[0];
+        const scale = this.options.unitScale;
+        this.latest = face
+          ? toLandmarkPoints(face, this.video.videoWidth * scale, -this.video.videoHeight * scale, -this.video.videoWidth * scale)
+          : null;
+      } catch (error) {
+        console.warn('MediaPipe detection failed:', error);
+        this.latest = null;
+      }
+    }
+    return this.latest;
+  }
+
+  dispose() {
+    this.landmarker?.close();
+    this.landmarker = null;
+    this.latest = null;
+  }
+}
+
+/**
+ * Plays back recorded landmark arrays, one frame per call.
+ * Used to verify the measurement math offline without a camera.
+ */
+export class FixtureLandmarkSource implements LandmarkSource {
+  readonly name = 'fixture';
+  readonly space: LandmarkSpace;
+  private frames: LandmarkFrame[];
+  private index: number = 0;
+  private loop: boolean;
+
+  constructor(frames: LandmarkFrame[], loop: boolean = false, space: LandmarkSpace = 'face') {
+    this.frames = frames;
+    this.loop = loop;
+    this.space = space;
+  }
+
+  /**
+   * Create a fixture source from a JSON file of `LandmarkFrame`s.
+   * Accepts either an array of frames or a bare array of landmark arrays.
+   */
+  static async fromUrl(url: string, loop: boolean = false, space: LandmarkSpace = 'face'): Promise<FixtureLandmarkSource> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load landmark fixture ${url}: ${response.status}`);
+    }
+    const data = await response.json();
+    const frames: LandmarkFrame[] = (data as any[]).map((entry, i) =>
+      Array.isArray(entry)
+        ? { timestamp: i, landmarks: toLandmarkPoints(entry, 1) }
+        : { timestamp: entry.timestamp ?? i, landmarks: entry.landmarks ? toLandmarkPoints(entry.landmarks, 1) : null }
+    );
+    return new FixtureLandmarkSource(frames, loop, space);
+  }
+
+  getLandmarks(): LandmarkPoint[] | null {
+    if (this.frames.length === 0) {
+      return null;
+    }
+    if (this.index >= this.frames.length) {
+      if (!this.loop) {
+        return null;
+      }
+      this.index = 0;
+    }
+    return this.frames[this.index++].landmarks;
+  }
+
+  /**
+   * Rewind to the first frame
+   */
+  reset() {
+    this.index = 0;
+  }
+
+  /**
+   * Whether all frames have been consumed (never true when looping)
+   */
+  isFinished(): boolean {
+    return !this.loop && this.index >= this.frames.length;
+  }
+}
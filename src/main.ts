@@ -1,35 +1,78 @@
 // src/main.ts - MindAR Implementation with Auto-Adjustment
 import './style.css';
-import { FaceMeasurementSystem } from './faceMeasurement.ts';
-import { AutoAdjuster, type AdjustmentSettings } from './autoAdjuster.ts';
-
-// ===== Settings Storage =====
-const SETTINGS_KEY = 'mindar-glasses-settings';
-
-interface GlassesSettings {
-  posX: number;
-  posY: number;
-  posZ: number;
-  scale: number;
-  rotX: number;
-  rotY: number;
-  rotZ: number;
-}
+import type { GlassesSettings } from './settings.ts';
+import { PresetManagerUI } from './presetManagerUI.ts';
+import { ComparisonUI } from './comparisonUI.ts';
+import type { MaterialMappingReport } from './materialMapping.ts';
+import type { TempleBone } from './templeRig.ts';
+import type { OccluderMode } from './headOccluder.ts';
+import { TryOnController } from './tryOnController.ts';
+import { TryOnBridge } from './tryOnBridge.ts';
+import { GestureControls } from './gestureControls.ts';
+import { PerformanceHud } from './performanceHud.ts';
+import { applyStoredAntialias } from './adaptiveQuality.ts';
+import { downloadSnapshot, shareSnapshot, type SnapshotOptions } from './snapshot.ts';
+
+// ===== Frame Catalog =====
+const CATALOG_URL = '/models/catalog.json';
+
+// ===== Rendering Quality =====
+// Antialiasing is fixed per WebGL context; adaptive quality saves it for the next load.
+// Module scripts run before A-Frame initializes the scene (it waits for the document to complete).
+const sceneElement = document.querySelector('a-scene');
+if (sceneElement) applyStoredAntialias(sceneElement);
+
+// ===== Try-On Controller =====
+const tryOn = new TryOnController();
+
+// ===== Presets =====
+const presetUI = new PresetManagerUI(tryOn.presets, {
+  getSettings: () => tryOn.getSettings(),
+  applySettings: (settings: GlassesSettings) => tryOn.setSettings(settings, 'preset'),
+  getFrameId: () => tryOn.getCurrentFrameId()
+});
+
+// Keep the controls in sync with settings from any source
+tryOn.on('settingsChanged', ({ settings, source }) => {
+  updateUIFromSettings(settings);
+  if (source === 'frame') {
+    presetUI.refresh();
+    const frameSelect = document.getElementById('frameSelect') as HTMLSelectElement | null;
+    const frameId = tryOn.getCurrentFrameId();
+    if (frameSelect && frameId) frameSelect.value = frameId;
+    renderVariantSwatches();
+  }
+});
+tryOn.on('presetsChanged', () => presetUI.refresh());
+tryOn.on('modelLoaded', ({ report }) => {
+  renderVariantSwatches();
+  renderMaterialReport(report);
+  renderTempleControls();
+});
+tryOn.on('templeFitChanged', () => updateTempleControls());
+tryOn.on('locksChanged', ({ locked }) => renderAxisLocks(locked));
+tryOn.on('historyChanged', ({ canUndo, canRedo }) => {
+  (document.getElementById('undoBtn') as HTMLButtonElement | null)?.toggleAttribute('disabled', !canUndo);
+  (document.getElementById('redoBtn') as HTMLButtonElement | null)?.toggleAttribute('disabled', !canRedo);
+});
+tryOn.on('variantChanged', () => renderVariantSwatches());
+
+// ===== Gestures =====
+// Drag, pinch and twist on the AR view; same path (and axis locks) as the sliders
+const gestures = new GestureControls({
+  getSettings: () => tryOn.getSettings(),
+  applySettings: (settings) => tryOn.setSettings(settings, 'user'),
+  getScreenAxes: () => tryOn.getScreenAxes()
+});
+
+// ===== Performance HUD =====
+const perfHud = new PerformanceHud({
+  getStats: () => tryOn.getPerformanceStats(),
+  getQualityLevel: () => tryOn.getQualityLevel()
+});
 
-let glassesEntity: any;
-let currentSettings: GlassesSettings = {
-  posX: 0,
-  posY: 0,
-  posZ: -0.15,
-  scale: 0.1,  // Match HTML default
-  rotX: 0,
-  rotY: 0,
-  rotZ: 0
-};
-
-// ===== Face Measurement & Auto-Adjustment =====
-const faceMeasurement = new FaceMeasurementSystem();
-const autoAdjuster = new AutoAdjuster(faceMeasurement);
+// ===== Frame Comparison =====
+const comparisonUI = new ComparisonUI(tryOn);
 
 // ===== Initialize Controls =====
 function initControls() {
@@ -40,24 +83,13 @@ function initControls() {
   const rotXSlider = document.getElementById('rotX') as HTMLInputElement;
   const rotYSlider = document.getElementById('rotY') as HTMLInputElement;
   const rotZSlider = document.getElementById('rotZ') as HTMLInputElement;
-  
-  const posXVal = document.getElementById('posX-val');
-  const posYVal = document.getElementById('posY-val');
-  const posZVal = document.getElementById('posZ-val');
-  const scaleVal = document.getElementById('scale-val');
-  const rotXVal = document.getElementById('rotX-val');
-  const rotYVal = document.getElementById('rotY-val');
-  const rotZVal = document.getElementById('rotZ-val');
-  
-  const saveBtn = document.getElementById('saveBtn');
-  const loadBtn = document.getElementById('loadBtn');
 
   // Wait for A-Frame to initialize
   const scene = document.querySelector('a-scene');
   
   scene?.addEventListener('loaded', () => {
     console.log('✅ A-Frame scene loaded');
-    glassesEntity = document.getElementById('glasses');
+    const glassesEntity = document.getElementById('glasses');
     
     if (!glassesEntity) {
       console.error('❌ Glasses entity not found');
@@ -65,231 +97,321 @@ function initControls() {
     }
 
     // Get MindAR anchor entity reference
-    const glassesAnchor = document.getElementById('glasses-anchor') as any;
+    const glassesAnchor = document.getElementById('glasses-anchor');
     
     if (glassesAnchor) {
-      // Initialize face measurement system with anchor entity
-      faceMeasurement.initialize(glassesAnchor);
-      faceMeasurement.startTracking();
-      
-      // Start measuring face on interval (when face is detected)
-      setInterval(() => {
-        if (glassesAnchor.object3D && glassesAnchor.object3D.visible) {
-          faceMeasurement.measureFace();
-        }
-      }, 1000);
-      
-      console.log('✅ Face measurement system active');
+      tryOn.attach(scene, glassesAnchor, glassesEntity);
     } else {
       console.error('❌ Glasses anchor not found - face measurement disabled');
     }
 
+    gestures.mount(scene as HTMLElement);
+
+    // MindAR's mesh has no iris; MediaPipe on the same video calibrates to mm
+    if (new URLSearchParams(window.location.search).has('iris')) {
+      scene.addEventListener('arReady', () => tryOn.enableIrisCalibration(), { once: true });
+    }
+
     // Load saved settings if available
-    loadSettings();
+    tryOn.loadLatestPreset();
     
     // Update UI to reflect current settings
-    updateUIFromSettings();
-
-    // Apply material settings for proper transparency
-    glassesEntity.addEventListener('model-loaded', () => {
-      console.log('✅ GLTF model loaded');
-      const mesh = glassesEntity.getObject3D('mesh');
-      
-      if (mesh) {
-        mesh.traverse((child: any) => {
-          if (child.isMesh && child.material) {
-            const materials = Array.isArray(child.material) ? child.material : [child.material];
-            
-            materials.forEach((mat: any) => {
-              // Frame materials (opaque)
-              if (mat.name.toLowerCase().includes('frame') || 
-                  mat.name.toLowerCase().includes('stem')) {
-                mat.transparent = false;
-                mat.opacity = 1.0;
-                mat.side = 0; // THREE.FrontSide
-                mat.depthWrite = true;
-                mat.depthTest = true;
-                mat.color.setHex(0x1a1a1a); // Dark frame
-                mat.metalness = 0.05;
-                mat.roughness = 0.4;
-              }
-              // Lens materials (transparent)
-              else if (mat.name.toLowerCase().includes('lens') || 
-                       mat.name.toLowerCase().includes('glass')) {
-                mat.transparent = true;
-                mat.opacity = 0.15; // Subtle transparency
-                mat.side = 2; // THREE.DoubleSide
-                mat.depthWrite = false; // Critical for transparency!
-                mat.depthTest = true;
-                mat.color.setHex(0x88ccff); // Light blue tint
-                mat.metalness = 0.9;
-                mat.roughness = 0.1;
-                // Proper blending
-                mat.blending = 1; // THREE.NormalBlending
-              }
-              
-              mat.needsUpdate = true;
-            });
-          }
-        });
-        
-        console.log('✅ Materials configured for transparency');
-        applySettings();
-      }
+    updateUIFromSettings(tryOn.getSettings());
+
+    // Load frame catalog for runtime model switching,
+    // then switch to the presets of the current frame
+    initCatalog().then(() => {
+      tryOn.loadLatestPreset();
+      presetUI.refresh();
     });
   });
 
   // Position X control
   posXSlider?.addEventListener('input', (e) => {
-    const value = parseFloat((e.target as HTMLInputElement).value);
-    currentSettings.posX = value;
-    if (posXVal) posXVal.textContent = value.toFixed(2);
-    applySettings();
+    tryOn.setSettings({ posX: parseFloat((e.target as HTMLInputElement).value) }, 'user');
   });
 
   // Position Y control
   posYSlider?.addEventListener('input', (e) => {
-    const value = parseFloat((e.target as HTMLInputElement).value);
-    currentSettings.posY = value;
-    if (posYVal) posYVal.textContent = value.toFixed(2);
-    applySettings();
+    tryOn.setSettings({ posY: parseFloat((e.target as HTMLInputElement).value) }, 'user');
   });
 
   // Position Z control
   posZSlider?.addEventListener('input', (e) => {
-    const value = parseFloat((e.target as HTMLInputElement).value);
-    currentSettings.posZ = value;
-    if (posZVal) posZVal.textContent = value.toFixed(2);
-    applySettings();
+    tryOn.setSettings({ posZ: parseFloat((e.target as HTMLInputElement).value) }, 'user');
   });
 
   // Scale control
   scaleSlider?.addEventListener('input', (e) => {
-    const value = parseFloat((e.target as HTMLInputElement).value);
-    currentSettings.scale = value;
-    if (scaleVal) scaleVal.textContent = value.toFixed(2);
-    applySettings();
+    tryOn.setSettings({ scale: parseFloat((e.target as HTMLInputElement).value) }, 'user');
   });
 
   // Rotation X control
   rotXSlider?.addEventListener('input', (e) => {
-    const value = parseFloat((e.target as HTMLInputElement).value);
-    currentSettings.rotX = value;
-    if (rotXVal) rotXVal.textContent = value.toString();
-    applySettings();
+    tryOn.setSettings({ rotX: parseFloat((e.target as HTMLInputElement).value) }, 'user');
   });
 
   // Rotation Y control
   rotYSlider?.addEventListener('input', (e) => {
-    const value = parseFloat((e.target as HTMLInputElement).value);
-    currentSettings.rotY = value;
-    if (rotYVal) rotYVal.textContent = value.toString();
-    applySettings();
+    tryOn.setSettings({ rotY: parseFloat((e.target as HTMLInputElement).value) }, 'user');
   });
 
   // Rotation Z control
   rotZSlider?.addEventListener('input', (e) => {
-    const value = parseFloat((e.target as HTMLInputElement).value);
-    currentSettings.rotZ = value;
-    if (rotZVal) rotZVal.textContent = value.toString();
-    applySettings();
+    tryOn.setSettings({ rotZ: parseFloat((e.target as HTMLInputElement).value) }, 'user');
   });
 
-  // Save button
-  saveBtn?.addEventListener('click', () => {
-    saveSettings();
-    alert('✅ Settings saved!');
+  // Axis locks and undo/redo
+  document.querySelectorAll<HTMLButtonElement>('.axis-lock').forEach((button) => {
+    button.addEventListener('click', () => tryOn.resetToAuto(button.dataset.axis as keyof GlassesSettings));
   });
-
-  // Load button
-  loadBtn?.addEventListener('click', () => {
-    if (loadSettings()) {
-      updateUIFromSettings();
-      applySettings();
-      alert('✅ Settings loaded!');
-    } else {
-      alert('❌ No saved settings found');
+  document.getElementById('resetAutoBtn')?.addEventListener('click', () => tryOn.resetToAuto());
+  document.getElementById('undoBtn')?.addEventListener('click', () => tryOn.undo());
+  document.getElementById('redoBtn')?.addEventListener('click', () => tryOn.redo());
+  document.addEventListener('keydown', (e) => {
+    if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement).matches('input[type="text"], textarea')) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      tryOn.undo();
+    } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+      e.preventDefault();
+      tryOn.redo();
     }
   });
+
+  // Automatic tilt, wrap and roll
+  const autoRotate = document.getElementById('autoRotate') as HTMLInputElement | null;
+  autoRotate?.addEventListener('change', () => tryOn.setAutoRotationEnabled(autoRotate.checked));
+
+  // Temple bone overrides (rigged models only)
+  initTempleControls();
+
+  // Head occluder mode and debug view
+  const occluderMode = document.getElementById('occluderMode') as HTMLSelectElement | null;
+  occluderMode?.addEventListener('change', () => {
+    tryOn.setOccluderOptions(occluderMode.value === 'off'
+      ? { enabled: false }
+      : { enabled: true, mode: occluderMode.value as OccluderMode });
+  });
+  const occluderDebug = document.getElementById('occluderDebug') as HTMLInputElement | null;
+  occluderDebug?.addEventListener('change', () => tryOn.setOccluderOptions({ debug: occluderDebug.checked }));
+
+  // Performance overlay (also shown with ?hud) and adaptive rendering quality
+  perfHud.mount();
+  const perfHudToggle = document.getElementById('perfHudToggle') as HTMLInputElement | null;
+  perfHudToggle?.addEventListener('change', () => perfHud.setVisible(perfHudToggle.checked));
+  if (new URLSearchParams(window.location.search).has('hud')) {
+    perfHud.setVisible(true);
+    if (perfHudToggle) perfHudToggle.checked = true;
+  }
+  const adaptiveQuality = document.getElementById('adaptiveQuality') as HTMLInputElement | null;
+  adaptiveQuality?.addEventListener('change', () => tryOn.setAdaptiveQuality({ enabled: adaptiveQuality.checked }));
+
+  // Preset manager (named presets per frame and profile)
+  presetUI.mount();
+
+  // Side-by-side frame comparison
+  comparisonUI.mount();
+
+  // Snapshot download/share
+  document.getElementById('snapshotDownloadBtn')?.addEventListener('click', () => takeSnapshot(false));
+  document.getElementById('snapshotShareBtn')?.addEventListener('click', () => takeSnapshot(true));
 }
 
-// ===== Auto-Adjustment Functions =====
+// ===== Axis Lock Functions =====
 /**
- * Initialize automatic adjustment pipeline
- * Connects measurement system to auto-adjuster for seamless real-time adjustment
+ * Show a lock next to each slider the user has set by hand
  */
-function initializeAutoAdjustmentPipeline() {
-  autoAdjuster.enable((settings: AdjustmentSettings) => {
-    // Update current settings with auto-adjusted values
-    currentSettings = {
-      ...currentSettings,
-      scale: settings.scale,
-      posX: settings.posX,
-      posY: settings.posY,
-      posZ: settings.posZ
-    };
-    
-    updateUIFromSettings();
-    applySettings();
+function renderAxisLocks(locked: (keyof GlassesSettings)[]) {
+  document.querySelectorAll<HTMLButtonElement>('.axis-lock').forEach((button) => {
+    button.hidden = !locked.includes(button.dataset.axis as keyof GlassesSettings);
   });
-  
-  console.log('🔄 Auto-adjustment pipeline initialized and active');
+  (document.getElementById('resetAutoBtn') as HTMLButtonElement | null)?.toggleAttribute('disabled', locked.length === 0);
 }
 
-function enableAutoAdjust() {
-  autoAdjuster.enable((settings: AdjustmentSettings) => {
-    // Update current settings with auto-adjusted values
-    currentSettings = {
-      ...currentSettings,
-      scale: settings.scale,
-      posX: settings.posX,
-      posY: settings.posY,
-      posZ: settings.posZ
-    };
-    
-    updateUIFromSettings();
-    applySettings();
-  });
+// ===== Temple Rig Functions =====
+function getSelectedTempleBone(): TempleBone | null {
+  const boneSelect = document.getElementById('templeBone') as HTMLSelectElement | null;
+  return (boneSelect?.value as TempleBone) || null;
 }
 
-function disableAutoAdjust() {
-  autoAdjuster.disable();
-}
+function initTempleControls() {
+  const fitCheckbox = document.getElementById('templeFitEnabled') as HTMLInputElement | null;
+  const boneSelect = document.getElementById('templeBone') as HTMLSelectElement | null;
+  const angleSlider = document.getElementById('templeAngle') as HTMLInputElement | null;
+  const lengthSlider = document.getElementById('templeLength') as HTMLInputElement | null;
 
-// Expose auto-adjustment controls globally
-(window as any).enableAutoAdjust = enableAutoAdjust;
-(window as any).disableAutoAdjust = disableAutoAdjust;
-(window as any).initializeAutoAdjustmentPipeline = initializeAutoAdjustmentPipeline;
-(window as any).setAutoScaleEnabled = (enabled: boolean) => autoAdjuster.setAutoScaleEnabled(enabled);
-(window as any).isAutoScaleEnabled = () => autoAdjuster.isAutoScaleEnabled();
-(window as any).getFaceMeasurements = () => faceMeasurement.getAverageMeasurements();
-(window as any).getRecommendedSettings = () => autoAdjuster.getRecommendedSettings();
-
-// ===== Apply settings to glasses entity =====
-function applySettings() {
-  if (!glassesEntity) return;
-  
-  glassesEntity.setAttribute('position', {
-    x: currentSettings.posX,
-    y: currentSettings.posY,
-    z: currentSettings.posZ
+  fitCheckbox?.addEventListener('change', () => tryOn.setTempleFitEnabled(fitCheckbox.checked));
+  boneSelect?.addEventListener('change', () => updateTempleControls());
+  angleSlider?.addEventListener('input', () => {
+    const bone = getSelectedTempleBone();
+    if (bone) tryOn.setBoneOverride(bone, { angle: parseFloat(angleSlider.value) });
   });
-  
-  glassesEntity.setAttribute('scale', {
-    x: currentSettings.scale,
-    y: currentSettings.scale,
-    z: currentSettings.scale
+  lengthSlider?.addEventListener('input', () => {
+    const bone = getSelectedTempleBone();
+    if (bone) tryOn.setBoneOverride(bone, { length: parseFloat(lengthSlider.value) });
+  });
+  document.getElementById('templeResetBtn')?.addEventListener('click', () => {
+    const bone = getSelectedTempleBone();
+    if (bone) tryOn.setBoneOverride(bone, null);
   });
+}
+
+/**
+ * List the temple bones of the loaded model, hiding the controls for unrigged models
+ */
+function renderTempleControls() {
+  const container = document.getElementById('templeControls');
+  const boneSelect = document.getElementById('templeBone') as HTMLSelectElement | null;
+  if (!container || !boneSelect) return;
+
+  const bones = tryOn.getTempleBones();
+  container.hidden = bones.length === 0;
+  boneSelect.innerHTML = '';
+  bones.forEach((bone) => {
+    const option = document.createElement('option');
+    option.value = bone;
+    option.textContent = bone.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+    boneSelect.appendChild(option);
+  });
+  updateTempleControls();
+}
 
-  glassesEntity.setAttribute('rotation', {
-    x: currentSettings.rotX,
-    y: currentSettings.rotY,
-    z: currentSettings.rotZ
+/**
+ * Show the selected bone's current angle and length
+ */
+function updateTempleControls() {
+  const bone = getSelectedTempleBone();
+  const pose = bone ? tryOn.getBonePoses()[bone] : undefined;
+  if (!pose) return;
+
+  const angleSlider = document.getElementById('templeAngle') as HTMLInputElement | null;
+  const lengthSlider = document.getElementById('templeLength') as HTMLInputElement | null;
+  const angleVal = document.getElementById('templeAngle-val');
+  const lengthVal = document.getElementById('templeLength-val');
+
+  if (angleSlider) angleSlider.value = pose.angle.toString();
+  if (lengthSlider) {
+    lengthSlider.value = pose.length.toString();
+    lengthSlider.disabled = bone === 'leftTip' || bone === 'rightTip';
+  }
+  if (angleVal) angleVal.textContent = `${pose.angle.toFixed(1)}${pose.overridden ? ' (manual)' : ''}`;
+  if (lengthVal) lengthVal.textContent = pose.length.toFixed(2);
+}
+
+// ===== Snapshot Functions =====
+function getSnapshotOptions(): SnapshotOptions {
+  return {
+    type: 'image/png',
+    overlays: {
+      frameName: (document.getElementById('snapshotFrameName') as HTMLInputElement | null)?.checked ?? false,
+      measurements: (document.getElementById('snapshotMeasurements') as HTMLInputElement | null)?.checked ?? false
+    }
+  };
+}
+
+/**
+ * Capture a snapshot and share it, falling back to a download
+ */
+async function takeSnapshot(share: boolean) {
+  try {
+    const blob = await tryOn.captureSnapshot(getSnapshotOptions());
+    if (share && await shareSnapshot(blob, tryOn.getCurrentFrame()?.name)) {
+      return;
+    }
+    downloadSnapshot(blob);
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') return; // Share sheet dismissed
+    console.error('❌ Snapshot failed:', error);
+  }
+}
+
+// ===== Frame Catalog Functions =====
+/**
+ * Load the frame catalog and populate the frame picker
+ */
+async function initCatalog() {
+  const frameSelect = document.getElementById('frameSelect') as HTMLSelectElement | null;
+
+  try {
+    // The initial model comes from the <a-asset-item> in index.html
+    const initialModel = document.getElementById('glassesModel')?.getAttribute('src') ?? undefined;
+    const catalog = await tryOn.loadCatalog(CATALOG_URL, initialModel);
+
+    if (frameSelect) {
+      frameSelect.innerHTML = '';
+      catalog.getFrames().forEach((frame) => {
+        const option = document.createElement('option');
+        option.value = frame.id;
+        option.textContent = frame.name;
+        frameSelect.appendChild(option);
+      });
+      const currentFrameId = tryOn.getCurrentFrameId();
+      if (currentFrameId) {
+        frameSelect.value = currentFrameId;
+      }
+      frameSelect.addEventListener('change', () => tryOn.selectFrame(frameSelect.value));
+    }
+    renderVariantSwatches();
+  } catch (error) {
+    console.error('❌ Failed to load frame catalog:', error);
+  }
+}
+
+/**
+ * Show a colour swatch per variant of the current frame
+ */
+function renderVariantSwatches() {
+  const container = document.getElementById('variantSwatches');
+  if (!container) return;
+
+  const current = tryOn.getCurrentVariant();
+  container.innerHTML = '';
+  tryOn.getVariants().forEach((variant) => {
+    const button = document.createElement('button');
+    button.className = variant.id === current.id ? 'swatch active' : 'swatch';
+    button.title = variant.name;
+    button.style.background = variant.swatch;
+    button.addEventListener('click', () => tryOn.setVariant(variant.id));
+    container.appendChild(button);
   });
 }
 
+/**
+ * Warn about materials the model's mapping rules did not cover
+ */
+function renderMaterialReport(report: MaterialMappingReport) {
+  const element = document.getElementById('materialReport');
+  if (!element) return;
+
+  const problems: string[] = [];
+  if (report.unmatched.length > 0) {
+    problems.push(`Unmapped materials: ${report.unmatched.map(u => u.material || `(unnamed on ${u.mesh})`).join(', ')}`);
+  }
+  if (report.missingRoles.length > 0) {
+    problems.push(`No material for: ${report.missingRoles.join(', ')}`);
+  }
+  element.textContent = problems.map(p => `⚠️ ${p}`).join('\n');
+  element.hidden = problems.length === 0;
+}
+
+// Expose the try-on API globally
+(window as any).tryOn = tryOn;
+
+// ===== Host page bridge (iframe embedding) =====
+// Comma-separated origins allowed to drive the try-on, e.g. VITE_BRIDGE_ORIGINS=https://shop.example.com
+const BRIDGE_ORIGINS: string[] = (import.meta.env.VITE_BRIDGE_ORIGINS ?? '')
+  .split(',')
+  .map((origin: string) => origin.trim())
+  .filter(Boolean);
+
+if (window.parent !== window && BRIDGE_ORIGINS.length > 0) {
+  new TryOnBridge(tryOn, { allowedOrigins: BRIDGE_ORIGINS }).start();
+}
+
 // ===== Update UI controls from current settings =====
-function updateUIFromSettings() {
+function updateUIFromSettings(settings: GlassesSettings) {
   const posXSlider = document.getElementById('posX') as HTMLInputElement;
   const posYSlider = document.getElementById('posY') as HTMLInputElement;
   const posZSlider = document.getElementById('posZ') as HTMLInputElement;
@@ -306,56 +428,21 @@ function updateUIFromSettings() {
   const rotYVal = document.getElementById('rotY-val');
   const rotZVal = document.getElementById('rotZ-val');
   
-  if (posXSlider) posXSlider.value = currentSettings.posX.toString();
-  if (posYSlider) posYSlider.value = currentSettings.posY.toString();
-  if (posZSlider) posZSlider.value = currentSettings.posZ.toString();
-  if (scaleSlider) scaleSlider.value = currentSettings.scale.toString();
-  if (rotXSlider) rotXSlider.value = currentSettings.rotX.toString();
-  if (rotYSlider) rotYSlider.value = currentSettings.rotY.toString();
-  if (rotZSlider) rotZSlider.value = currentSettings.rotZ.toString();
+  if (posXSlider) posXSlider.value = settings.posX.toString();
+  if (posYSlider) posYSlider.value = settings.posY.toString();
+  if (posZSlider) posZSlider.value = settings.posZ.toString();
+  if (scaleSlider) scaleSlider.value = settings.scale.toString();
+  if (rotXSlider) rotXSlider.value = settings.rotX.toString();
+  if (rotYSlider) rotYSlider.value = settings.rotY.toString();
+  if (rotZSlider) rotZSlider.value = settings.rotZ.toString();
   
-  if (posXVal) posXVal.textContent = currentSettings.posX.toFixed(2);
-  if (posYVal) posYVal.textContent = currentSettings.posY.toFixed(2);
-  if (posZVal) posZVal.textContent = currentSettings.posZ.toFixed(2);
-  if (scaleVal) scaleVal.textContent = currentSettings.scale.toFixed(2);
-  if (rotXVal) rotXVal.textContent = currentSettings.rotX.toString();
-  if (rotYVal) rotYVal.textContent = currentSettings.rotY.toString();
-  if (rotZVal) rotZVal.textContent = currentSettings.rotZ.toString();
-}
-
-// ===== Save settings to localStorage =====
-function saveSettings() {
-  try {
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(currentSettings));
-    console.log('🔖 Settings saved:', currentSettings);
-  } catch (error) {
-    console.error('❌ Failed to save settings:', error);
-  }
-}
-
-// ===== Load settings from localStorage =====
-function loadSettings(): boolean {
-  try {
-    const saved = localStorage.getItem(SETTINGS_KEY);
-    if (saved) {
-      const loaded = JSON.parse(saved);
-      // Merge with defaults to handle missing properties
-      currentSettings = {
-        posX: loaded.posX ?? 0,
-        posY: loaded.posY ?? 0,
-        posZ: loaded.posZ ?? -0.05,
-        scale: loaded.scale ?? 0.5,  // Match HTML default
-        rotX: loaded.rotX ?? 0,
-        rotY: loaded.rotY ?? 0,
-        rotZ: loaded.rotZ ?? 0
-      };
-      console.log('✅ Settings loaded:', currentSettings);
-      return true;
-    }
-  } catch (error) {
-    console.error('❌ Failed to load settings:', error);
-  }
-  return false;
+  if (posXVal) posXVal.textContent = settings.posX.toFixed(2);
+  if (posYVal) posYVal.textContent = settings.posY.toFixed(2);
+  if (posZVal) posZVal.textContent = settings.posZ.toFixed(2);
+  if (scaleVal) scaleVal.textContent = settings.scale.toFixed(2);
+  if (rotXVal) rotXVal.textContent = settings.rotX.toFixed(0);
+  if (rotYVal) rotYVal.textContent = settings.rotY.toFixed(0);
+  if (rotZVal) rotZVal.textContent = settings.rotZ.toFixed(0);
 }
 
 // ===== Initialize application =====
@@ -363,28 +450,65 @@ document.addEventListener('DOMContentLoaded', () => {
   console.log('🚀 MindAR Glasses Try-On - Initializing...');
   initControls();
   
-  // Initialize automatic adjustment pipeline
-  // Call this after MindAR is ready to enable real-time auto-adjustment
-  setTimeout(() => initializeAutoAdjustmentPipeline(), 2000);
+  // Enable automatic adjustment once MindAR is ready
+  setTimeout(() => tryOn.enableAutoAdjust(), 2000);
 });
 
 // Console API Examples:
-// window.enableAutoAdjust() - Manually enable auto-adjustment (position only)
-// window.disableAutoAdjust() - Disable auto-adjustment  
-// window.setAutoScaleEnabled(true) - Enable automatic scale calculation
-// window.setAutoScaleEnabled(false) - Disable (default - position only)
-// window.isAutoScaleEnabled() - Check current status
-// window.getFaceMeasurements() - Get average face measurements
-// window.getRecommendedSettings() - Get recommended glasses settings
-// window.initializeAutoAdjustmentPipeline() - Auto-initialize on startup
+// tryOn.on('measurement', m => ...) - Subscribe to events; returns an unsubscribe function
+//   Events: faceFound, faceLost, measurement, adjustment, modelLoaded, settingsChanged, presetsChanged, qualityChanged
+// tryOn.enableAutoAdjust() - Manually enable auto-adjustment (position only)
+// tryOn.disableAutoAdjust() - Disable auto-adjustment  
+// tryOn.setAutoScaleEnabled(true) - Enable automatic scale calculation
+// tryOn.setAutoScaleEnabled(false) - Disable (default - position only)
+// tryOn.isAutoScaleEnabled() - Check current status
+// tryOn.setAutoRotationEnabled(true) - Correct tilt, wrap and roll from facial features
+// tryOn.setRotationLimits({ maxTilt: 8 }) - Clamp automatic rotation per axis (degrees)
+// tryOn.getSettings() / tryOn.setSettings({ posY: 0.01 }) - Read or change glasses settings
+// tryOn.setTransitionOptions({ mode: 'tween', duration: 300, easing: 'ease-out' }) - How the glasses move to automatic changes ('spring' | 'tween' | 'none')
+// tryOn.getPerformanceStats() - Render FPS, tracking rate, measureFace/AutoAdjuster timings, face-lost frequency
+// tryOn.setAdaptiveQuality({ targetFps: 30 }) - Tune or disable ({ enabled: false }) adaptive rendering quality
+// tryOn.getScreenAxes() - On-screen pixels per unit along the glasses' X/Y axes (used by gestures)
+// tryOn.getLockedAxes() / tryOn.resetToAuto('posY') - Axes set by hand are kept from auto-adjust until reset
+// tryOn.undo() / tryOn.redo() - Step through manual edits and applied auto-adjustments
+// tryOn.getFaceMeasurements() - Get average face measurements
+// tryOn.getRecommendedSettings() - Get recommended glasses settings
+// tryOn.getFaceShape() - Get face shape classification with per-class confidence
+// tryOn.getHeadPose() - Get current yaw/pitch/roll in degrees
+// tryOn.setPoseGate({ maxYaw: 10 }) - Only measure near-frontal poses ({ enabled: false } to disable)
+// tryOn.setMeasurementFilter({ mode: 'one-euro' }) - Configure measurement filtering ('none' | 'one-euro' | 'kalman')
+// tryOn.setAnchorSmoothing(false) - Toggle anchor transform smoothing
+// tryOn.selectFrame(id) - Switch to another frame from the catalog
+// tryOn.getCurrentFrame() - Get the current catalog frame
+// tryOn.getVariants() / tryOn.setVariant(id) - List or switch colour/lens variants without reloading
+// tryOn.getMaterialReport() - Material mapping report of the loaded model
+// tryOn.getBonePoses() - Temple bone angles/lengths of rigged models
+// tryOn.setBoneOverride('leftTemple', { angle: 8 }) - Pin a temple bone (null = back to the measured fit)
+// tryOn.setTempleFitEnabled(false) - Leave the temples as modelled
+// tryOn.setOccluderOptions({ mode: 'face-mesh', debug: true }) - Head occluder mode; debug draws it as a wireframe
+// tryOn.setLensActivation(0.8) - Force photochromic activation (null = estimate from camera)
+// tryOn.recommendFrames() - Rank catalog frames by fit for the current face
+// tryOn.startSessionRecording() - Record tracking data for offline replay
+// tryOn.stopSessionRecording() - Stop recording and download the session file
+// tryOn.replaySession(url) - Replay a session file on a virtual clock
+// tryOn.runSyntheticFace({ faceWidthMm: 150, jitterMm: 0.5 }, { autoScale: true }) - Measure and adjust a generated face
+// tryOn.exportPresets() - Get all presets as JSON
+// tryOn.importPresets(json) - Import presets (any schema version)
+// tryOn.getCalibration() - Get the latest frame's metric calibration (method, mm/unit, error bound)
+// tryOn.enableIrisCalibration() - Measure with MediaPipe's iris mesh for millimetre values (also ?iris)
+// tryOn.calibrateWithCreditCard(width) - Calibrate from a card's width in landmark units (without iris)
+// tryOn.addToComparison() - Snapshot the current frame into the comparison gallery
+// tryOn.restoreComparison(id) - Reload a compared frame with its settings
+// tryOn.captureSnapshot({ type: 'image/jpeg', overlays: { frameName: true } }) - Capture a composited image Blob
 
 console.log('📦 main.ts loaded');
 
 /**
  * Browser Console Commands:
  * 
- * enableAutoAdjust()         - Enable automatic face-based adjustment
- * disableAutoAdjust()        - Disable automatic adjustment
- * getFaceMeasurements()      - View current face measurements
- * getRecommendedSettings()   - Get recommended settings
+ * tryOn.enableAutoAdjust()         - Enable automatic face-based adjustment
+ * tryOn.disableAutoAdjust()        - Disable automatic adjustment
+ * tryOn.getFaceMeasurements()      - View current face measurements
+ * tryOn.getRecommendedSettings()   - Get recommended settings
+ * tryOn.getFaceShape()             - Classify face shape (oval, round, square...)
  */
@@ -0,0 +1,199 @@
+// src/materialMapping.ts - Declarative mesh/material name rules assigning material roles
+
+export type MaterialRole = 'frame' | 'temple' | 'lens' | 'nosePad' | 'hinge';
+
+export const MATERIAL_ROLES: MaterialRole[] = ['frame', 'temple', 'lens', 'nosePad', 'hinge'];
+
+/**
+ * A rule matches a mesh name or a material name (at least one is required).
+ * Patterns are exact names, globs (`Lens_*`, `?` = one character) or
+ * regular expressions written as `/pattern/flags`.
+ */
+export interface MaterialMappingRule {
+  mesh?: string;
+  material?: string;
+  role: MaterialRole;
+}
+
+export interface MaterialMappingConfig {
+  rules: MaterialMappingRule[];       // First matching rule wins
+  expectedRoles: MaterialRole[];      // Roles the model must provide
+}
+
+export interface MaterialAssignment {
+  mesh: string;
+  material: string;
+  role: MaterialRole;
+  rule: number;                       // Index of the matching rule
+}
+
+export interface MaterialMappingReport {
+  model: string | null;
+  assignments: MaterialAssignment[];
+  unmatched: { mesh: string; material: string }[];
+  missingRoles: MaterialRole[];       // Expected roles with no material
+  ok: boolean;
+}
+
+/**
+ * Previous name heuristics, used when a model has no mapping of its own
+ */
+export const DEFAULT_MATERIAL_MAPPING: MaterialMappingConfig = {
+  rules: [
+    { material: '/stem|temple/i', role: 'temple' },
+    { material: '/frame/i', role: 'frame' },
+    { material: '/lens|glass/i', role: 'lens' },
+    { material: '/nose.?pad/i', role: 'nosePad' },
+    { material: '/hinge/i', role: 'hinge' }
+  ],
+  expectedRoles: ['frame', 'lens']
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile an exact, glob or `/regex/flags` pattern
+ */
+export function compilePattern(pattern: string): RegExp {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (regex) {
+    return new RegExp(regex[1], regex[2]);
+  }
+  if (/[*?]/.test(pattern)) {
+    const source = pattern.split('').map((c) => {
+      if (c === '*') return '.*';
+      if (c === '?') return '.';
+      return escapeRegExp(c);
+    }).join('');
+    return new RegExp(`^${source}$`);
+  }
+  return new RegExp(`^${escapeRegExp(pattern)}$`);
+}
+
+/**
+ * Validate a mapping config from the catalog
+ */
+export function parseMaterialMapping(raw: any, where: string): MaterialMappingConfig {
+  if (raw === undefined) {
+    return DEFAULT_MATERIAL_MAPPING;
+  }
+  if (!raw || !Array.isArray(raw.rules)) {
+    throw new Error(`Invalid ${where}: materialMapping needs a rules array`);
+  }
+
+  const rules: MaterialMappingRule[] = raw.rules.map((rule: any, i: number) => {
+    if (!rule || !MATERIAL_ROLES.includes(rule.role)) {
+      throw new Error(`Invalid ${where}: material rule #${i} has unknown role "${rule?.role}"`);
+    }
+    if (typeof rule.mesh !== 'string' && typeof rule.material !== 'string') {
+      throw new Error(`Invalid ${where}: material rule #${i} needs a mesh or material pattern`);
+    }
+    [rule.mesh, rule.material].forEach((pattern) => {
+      if (typeof pattern !== 'string') return;
+      try {
+        compilePattern(pattern);
+      } catch {
+        throw new Error(`Invalid ${where}: material rule #${i} has a bad pattern "${pattern}"`);
+      }
+    });
+    return {
+      mesh: typeof rule.mesh === 'string' ? rule.mesh : undefined,
+      material: typeof rule.material === 'string' ? rule.material : undefined,
+      role: rule.role
+    };
+  });
+
+  const expectedRoles: MaterialRole[] = Array.isArray(raw.expectedRoles)
+    ? raw.expectedRoles.filter((role: any) => MATERIAL_ROLES.includes(role))
+    : DEFAULT_MATERIAL_MAPPING.expectedRoles;
+
+  return { rules, expectedRoles };
+}
+
+/**
+ * Resolves material roles for loaded models
+ */
+export class MaterialMapper {
+  private config: MaterialMappingConfig;
+  private compiled: { mesh?: RegExp; material?: RegExp; role: MaterialRole }[];
+
+  constructor(config: MaterialMappingConfig = DEFAULT_MATERIAL_MAPPING) {
+    this.config = config;
+    this.compiled = config.rules.map(rule => ({
+      mesh: rule.mesh !== undefined ? compilePattern(rule.mesh) : undefined,
+      material: rule.material !== undefined ? compilePattern(rule.material) : undefined,
+      role: rule.role
+    }));
+  }
+
+  /**
+   * Index of the first rule matching a mesh/material pair, or -1
+   */
+  match(meshName: string, materialName: string): number {
+    return this.compiled.findIndex(rule =>
+      (!rule.mesh || rule.mesh.test(meshName)) &&
+      (!rule.material || rule.material.test(materialName))
+    );
+  }
+
+  /**
+   * Assign a role to every material of a mesh and report what did not map
+   * @returns Role per material object, and the report
+   */
+  resolve(mesh: any, model: string | null = null): { roles: Map<any, MaterialRole>; report: MaterialMappingReport } {
+    const roles = new Map<any, MaterialRole>();
+    const assignments: MaterialAssignment[] = [];
+    const unmatched: { mesh: string; material: string }[] = [];
+
+    mesh.traverse((child: any) => {
+      if (!child.isMesh || !child.material) return;
+      const materials = Array.isArray(child.material) ? child.material : [child.material];
+
+      materials.forEach((mat: any) => {
+        if (roles.has(mat)) return;
+        const meshName = child.name ?? '';
+        const materialName = mat.name ?? '';
+        const rule = this.match(meshName, materialName);
+        if (rule >= 0) {
+          const role = this.compiled[rule].role;
+          roles.set(mat, role);
+          assignments.push({ mesh: meshName, material: materialName, role, rule });
+        } else {
+          unmatched.push({ mesh: meshName, material: materialName });
+        }
+      });
+    });
+
+    const found = new Set(roles.values());
+    const missingRoles = this.config.expectedRoles.filter(role => !found.has(role));
+    return {
+      roles,
+      report: { model, assignments, unmatched, missingRoles, ok: unmatched.length === 0 && missingRoles.length === 0 }
+    };
+  }
+}
+
+/**
+ * Print a report to the dev console, as a warning when something did not map
+ */
+export function logMaterialReport(report: MaterialMappingReport) {
+  const label = `🧵 Material mapping${report.model ? ` (${report.model})` : ''}`;
+  if (report.ok) {
+    console.log(`${label}: ${report.assignments.length} materials mapped`);
+    return;
+  }
+  console.groupCollapsed(`⚠️ ${label}: ${report.unmatched.length} unmatched, ${report.missingRoles.length} missing roles`);
+  if (report.unmatched.length > 0) {
+    console.warn('Unmatched materials (left untouched):');
+    console.table(report.unmatched);
+  }
+  if (report.missingRoles.length > 0) {
+    console.warn('Roles with no material:', report.missingRoles.join(', '));
+  }
+  if (report.assignments.length > 0) {
+    console.table(report.assignments);
+  }
+  console.groupEnd();
+}
@@ -0,0 +1,252 @@
+// src/materialVariants.ts - Frame colour and lens tint variants applied to loaded models
+
+import {
+  CanvasTexture,
+  DoubleSide,
+  FrontSide,
+  NormalBlending,
+  PMREMGenerator,
+  SRGBColorSpace,
+  TextureLoader,
+  type Texture
+} from 'three';
+import { RoomEnvironment } from 'three/examples/jsm/environments/RoomEnvironment.js';
+import type { MaterialRole } from './materialMapping.ts';
+
+export interface FrameMaterialDefinition {
+  color: string;                // CSS hex colour, e.g. "#1a1a1a"
+  map?: string;                 // Texture URL (tortoiseshell, wood...)
+  metalness: number;
+  roughness: number;
+  opacity: number;              // < 1 for clear acetate
+}
+
+export interface LensGradient {
+  topOpacity: number;           // Opacity at the top of the lens
+  bottomOpacity: number;        // Opacity at the bottom of the lens
+}
+
+export interface LensPhotochromic {
+  color: string;                // Tint when fully activated
+  opacity: number;              // Opacity when fully activated
+}
+
+export interface LensMaterialDefinition {
+  color: string;
+  opacity: number;
+  gradient?: LensGradient;      // Vertical gradient (sunglasses)
+  mirror?: number;              // Mirror coating strength 0–1
+  photochromic?: LensPhotochromic; // Darkens with ambient light
+}
+
+export interface FrameVariant {
+  id: string;
+  name: string;
+  swatch: string;               // Colour shown in the picker
+  frame: FrameMaterialDefinition;
+  lens: LensMaterialDefinition;
+}
+
+/**
+ * Previous hardcoded look: dark frame, light blue lens
+ */
+export const DEFAULT_VARIANT: FrameVariant = {
+  id: 'default',
+  name: 'Black',
+  swatch: '#1a1a1a',
+  frame: { color: '#1a1a1a', metalness: 0.05, roughness: 0.4, opacity: 1 },
+  lens: { color: '#88ccff', opacity: 0.15 }
+};
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function readNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function readColor(value: unknown, fallback: string): string {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value : fallback;
+}
+
+/**
+ * Validate a variant from the catalog, filling defaults where missing
+ */
+export function parseVariant(raw: any, index: number): FrameVariant {
+  if (!raw || typeof raw !== 'object' || typeof raw.id !== 'string' || !raw.id) {
+    throw new Error(`Invalid variant #${index}: missing id`);
+  }
+  const frame = raw.frame ?? {};
+  const lens = raw.lens ?? {};
+  const defaults = DEFAULT_VARIANT;
+
+  const variant: FrameVariant = {
+    id: raw.id,
+    name: typeof raw.name === 'string' ? raw.name : raw.id,
+    swatch: readColor(raw.swatch, readColor(frame.color, defaults.swatch)),
+    frame: {
+      color: readColor(frame.color, defaults.frame.color),
+      map: typeof frame.map === 'string' ? frame.map : undefined,
+      metalness: clamp01(readNumber(frame.metalness, defaults.frame.metalness)),
+      roughness: clamp01(readNumber(frame.roughness, defaults.frame.roughness)),
+      opacity: clamp01(readNumber(frame.opacity, defaults.frame.opacity))
+    },
+    lens: {
+      color: readColor(lens.color, defaults.lens.color),
+      opacity: clamp01(readNumber(lens.opacity, defaults.lens.opacity))
+    }
+  };
+
+  if (lens.gradient) {
+    variant.lens.gradient = {
+      topOpacity: clamp01(readNumber(lens.gradient.topOpacity, variant.lens.opacity)),
+      bottomOpacity: clamp01(readNumber(lens.gradient.bottomOpacity, 0))
+    };
+  }
+  if (lens.mirror !== undefined) {
+    variant.lens.mirror = clamp01(readNumber(lens.mirror, 0));
+  }
+  if (lens.photochromic) {
+    variant.lens.photochromic = {
+      color: readColor(lens.photochromic.color, '#333333'),
+      opacity: clamp01(readNumber(lens.photochromic.opacity, 0.8))
+    };
+  }
+  return variant;
+}
+
+/**
+ * Applies variants to the materials of a loaded model. Textures, gradient maps
+ * and the mirror environment are cached so switching is instant.
+ */
+export class MaterialVariantApplier {
+  private textureLoader = new TextureLoader();
+  private textures = new Map<string, Texture>();
+  private gradients = new Map<string, Texture>();
+  private environment: Texture | null = null;
+
+  /**
+   * Apply a variant to materials by role. Lenses get the lens definition,
+   * every other role (frame, temple, hinge, nose pad) the frame definition.
+   * @param roles - Role per material, from MaterialMapper.resolve()
+   * @param activation - Photochromic activation 0 (indoors) to 1 (bright sun)
+   */
+  apply(roles: Map<any, MaterialRole>, variant: FrameVariant, renderer?: any, activation: number = 0) {
+    roles.forEach((role, mat) => {
+      if (role === 'lens') {
+        this.applyLens(mat, variant.lens, renderer, activation);
+      } else {
+        this.applyFrame(mat, variant.frame);
+      }
+      mat.needsUpdate = true;
+    });
+  }
+
+  /**
+   * Opaque (or translucent acetate) frame material
+   */
+  applyFrame(mat: any, frame: FrameMaterialDefinition) {
+    mat.transparent = frame.opacity < 1;
+    mat.opacity = frame.opacity;
+    mat.side = FrontSide;
+    mat.depthWrite = frame.opacity >= 1;
+    mat.depthTest = true;
+    mat.color?.set(frame.color);
+    mat.metalness = frame.metalness;
+    mat.roughness = frame.roughness;
+    mat.map = frame.map ? this.getTexture(frame.map) : null;
+  }
+
+  /**
+   * Transparent lens material with optional gradient, mirror and photochromic tint
+   */
+  applyLens(mat: any, lens: LensMaterialDefinition, renderer?: any, activation: number = 0) {
+    const level = lens.photochromic ? clamp01(activation) : 0;
+    const opacity = lens.photochromic
+      ? lens.opacity + (lens.photochromic.opacity - lens.opacity) * level
+      : lens.opacity;
+
+    mat.transparent = true;
+    mat.side = DoubleSide;
+    mat.depthWrite = false; // Critical for transparency!
+    mat.depthTest = true;
+    mat.blending = NormalBlending;
+    mat.color?.set(lens.color);
+    if (lens.photochromic) {
+      mat.color?.lerp(mat.color.clone().set(lens.photochromic.color), level);
+    }
+
+    if (lens.gradient) {
+      // The alpha map scales opacity, so use the more opaque end as the base
+      const max = Math.max(lens.gradient.topOpacity, lens.gradient.bottomOpacity, 0.001);
+      mat.opacity = max;
+      mat.alphaMap = this.getGradient(lens.gradient.topOpacity / max, lens.gradient.bottomOpacity / max);
+    } else {
+      mat.opacity = opacity;
+      mat.alphaMap = null;
+    }
+
+    const mirror = lens.mirror ?? 0;
+    mat.metalness = mirror > 0 ? 0.9 + 0.1 * mirror : 0.9;
+    mat.roughness = mirror > 0 ? 0.1 * (1 - mirror) : 0.1;
+    mat.envMap = mirror > 0 ? this.getEnvironment(renderer) : null;
+    mat.envMapIntensity = mirror > 0 ? 1 + mirror : 1;
+  }
+
+  private getTexture(url: string): Texture {
+    let texture = this.textures.get(url);
+    if (!texture) {
+      texture = this.textureLoader.load(url);
+      texture.colorSpace = SRGBColorSpace;
+      texture.flipY = false; // glTF UV convention
+      this.textures.set(url, texture);
+    }
+    return texture;
+  }
+
+  /**
+   * Vertical alpha gradient (alpha maps read the green channel)
+   */
+  private getGradient(top: number, bottom: number): Texture {
+    const key = `${top.toFixed(3)}:${bottom.toFixed(3)}`;
+    let texture = this.gradients.get(key);
+    if (!texture) {
+      const canvas = document.createElement('canvas');
+      canvas.width = 1;
+      canvas.height = 64;
+      const ctx = canvas.getContext('2d')!;
+      const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
+      const level = (v: number) => Math.round(clamp01(v) * 255);
+      gradient.addColorStop(0, `rgb(${level(top)}, ${level(top)}, ${level(top)})`);
+      gradient.addColorStop(1, `rgb(${level(bottom)}, ${level(bottom)}, ${level(bottom)})`);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      texture = new CanvasTexture(canvas);
+      texture.flipY = false;
+      this.gradients.set(key, texture);
+    }
+    return texture;
+  }
+
+  /**
+   * Neutral room environment for mirror reflections
+   */
+  private getEnvironment(renderer?: any): Texture | null {
+    if (!this.environment && renderer) {
+      const generator = new PMREMGenerator(renderer);
+      this.environment = generator.fromScene(new RoomEnvironment(), 0.04).texture;
+      generator.dispose();
+    }
+    return this.environment;
+  }
+
+  dispose() {
+    this.textures.forEach(texture => texture.dispose());
+    this.gradients.forEach(texture => texture.dispose());
+    this.environment?.dispose();
+    this.textures.clear();
+    this.gradients.clear();
+    this.environment = null;
+  }
+}
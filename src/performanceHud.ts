@@ -0,0 +1,57 @@
+// src/performanceHud.ts - Overlay with live performance numbers
+
+import type { PerformanceStats } from './performanceMonitor.ts';
+import type { QualityLevel } from './adaptiveQuality.ts';
+
+export interface PerformanceHudOptions {
+  getStats: () => PerformanceStats;
+  getQualityLevel: () => QualityLevel;
+}
+
+const REFRESH_INTERVAL = 500; // ms
+
+export class PerformanceHud {
+  private options: PerformanceHudOptions;
+  private element: HTMLElement | null = null;
+  private intervalId?: number;
+
+  constructor(options: PerformanceHudOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Bind to the `#perfHud` overlay in index.html
+   */
+  mount(root: ParentNode = document) {
+    this.element = root.querySelector('#perfHud');
+  }
+
+  setVisible(visible: boolean) {
+    if (!this.element) return;
+    this.element.hidden = !visible;
+    window.clearInterval(this.intervalId);
+    this.intervalId = undefined;
+    if (visible) {
+      this.render();
+      this.intervalId = window.setInterval(() => this.render(), REFRESH_INTERVAL);
+    }
+  }
+
+  isVisible(): boolean {
+    return !!this.element && !this.element.hidden;
+  }
+
+  private render() {
+    if (!this.element) return;
+    const stats = this.options.getStats();
+    const level = this.options.getQualityLevel();
+    this.element.textContent = [
+      `FPS       ${stats.fps.toFixed(0)}`,
+      `Tracking  ${stats.trackingRate.toFixed(0)}/s`,
+      `Measure   ${stats.measureFaceMs.toFixed(1)} ms`,
+      `Adjust    ${stats.autoAdjustMs.toFixed(1)} ms`,
+      `Face lost ${stats.faceLostPerMinute.toFixed(0)}/min`,
+      `Quality   ${level.name} (×${level.pixelRatio}, ${level.lights} lights${level.antialias ? ', AA' : ''})`
+    ].join('\n');
+  }
+}
@@ -0,0 +1,127 @@
+// src/performanceMonitor.ts - Frame rate, tracking rate and per-stage timings
+
+export type TimedStage = 'measureFace' | 'autoAdjust';
+
+export interface PerformanceStats {
+  fps: number;                  // Frames rendered per second
+  trackingRate: number;         // MindAR estimates per second
+  measureFaceMs: number;        // Mean measureFace() time
+  autoAdjustMs: number;         // Mean AutoAdjuster update time
+  faceLostPerMinute: number;
+}
+
+const RATE_WINDOW_MS = 3000;    // FPS and tracking rate average over this
+const TIMING_SAMPLES = 20;      // Stage timings average over this many calls
+const FACE_LOST_WINDOW_MS = 60000;
+
+/**
+ * Counts animation frames and tracking updates while started, and keeps
+ * recent timings of the expensive per-update stages
+ */
+export class PerformanceMonitor {
+  private frameTimes: number[] = [];
+  private trackingTimes: number[] = [];
+  private faceLostTimes: number[] = [];
+  private timings: Record<TimedStage, number[]> = { measureFace: [], autoAdjust: [] };
+  private getTrackingUpdates: (() => number) | null = null;
+  private lastTrackingUpdates: number = 0;
+  private frameId?: number;
+  private startedAt: number = 0;
+
+  /**
+   * Start counting frames
+   * @param getTrackingUpdates - Running count of tracker updates, polled every frame
+   */
+  start(getTrackingUpdates: (() => number) | null = null) {
+    this.stop();
+    this.getTrackingUpdates = getTrackingUpdates;
+    this.lastTrackingUpdates = getTrackingUpdates?.() ?? 0;
+    this.startedAt = performance.now();
+
+    const tick = (now: number) => {
+      this.frameTimes.push(now);
+      const updates = this.getTrackingUpdates?.() ?? 0;
+      for (let i = this.lastTrackingUpdates; i < updates; i++) {
+        this.trackingTimes.push(now);
+      }
+      this.lastTrackingUpdates = updates;
+      prune(this.frameTimes, now - RATE_WINDOW_MS);
+      prune(this.trackingTimes, now - RATE_WINDOW_MS);
+      this.frameId = requestAnimationFrame(tick);
+    };
+    this.frameId = requestAnimationFrame(tick);
+  }
+
+  stop() {
+    if (this.frameId !== undefined) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = undefined;
+    }
+  }
+
+  /**
+   * Run a stage and record how long it took
+   */
+  time<T>(stage: TimedStage, run: () => T): T {
+    const start = performance.now();
+    try {
+      return run();
+    } finally {
+      this.record(stage, performance.now() - start);
+    }
+  }
+
+  record(stage: TimedStage, ms: number) {
+    const samples = this.timings[stage];
+    samples.push(ms);
+    if (samples.length > TIMING_SAMPLES) {
+      samples.shift();
+    }
+  }
+
+  recordFaceLost(now: number = performance.now()) {
+    this.faceLostTimes.push(now);
+  }
+
+  getStats(now: number = performance.now()): PerformanceStats {
+    prune(this.faceLostTimes, now - FACE_LOST_WINDOW_MS);
+    // Shorter window right after starting, so rates aren't underestimated
+    const span = Math.min(RATE_WINDOW_MS, now - this.startedAt);
+    return {
+      fps: rate(this.frameTimes, now, span),
+      trackingRate: rate(this.trackingTimes, now, span),
+      measureFaceMs: mean(this.timings.measureFace),
+      autoAdjustMs: mean(this.timings.autoAdjust),
+      faceLostPerMinute: this.faceLostTimes.length * 60000 / FACE_LOST_WINDOW_MS
+    };
+  }
+
+  reset() {
+    this.frameTimes = [];
+    this.trackingTimes = [];
+    this.faceLostTimes = [];
+    this.timings = { measureFace: [], autoAdjust: [] };
+  }
+}
+
+/**
+ * Drop timestamps older than a cutoff (they are in ascending order)
+ */
+function prune(times: number[], cutoff: number) {
+  let stale = 0;
+  while (stale < times.length && times[stale] < cutoff) stale++;
+  if (stale > 0) times.splice(0, stale);
+}
+
+/**
+ * Events per second over the last `span` ms
+ */
+function rate(times: number[], now: number, span: number): number {
+  if (span <= 0) return 0;
+  const recent = times.filter(t => t >= now - span);
+  return recent.length * 1000 / span;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
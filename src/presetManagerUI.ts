@@ -0,0 +1,155 @@
+// src/presetManagerUI.ts - Preset manager panel in the controls
+
+import type { PresetManager } from './presets.ts';
+import type { GlassesSettings } from './settings.ts';
+
+export interface PresetManagerUIOptions {
+  getSettings: () => GlassesSettings;
+  applySettings: (settings: GlassesSettings) => void;
+  getFrameId: () => string | null;
+}
+
+export class PresetManagerUI {
+  private manager: PresetManager;
+  private options: PresetManagerUIOptions;
+  private profileInput: HTMLInputElement | null = null;
+  private profileList: HTMLDataListElement | null = null;
+  private nameInput: HTMLInputElement | null = null;
+  private presetList: HTMLSelectElement | null = null;
+  private fileInput: HTMLInputElement | null = null;
+  private status: HTMLElement | null = null;
+  private statusTimeout?: number;
+
+  constructor(manager: PresetManager, options: PresetManagerUIOptions) {
+    this.manager = manager;
+    this.options = options;
+  }
+
+  /**
+   * Bind to the preset manager markup in index.html
+   */
+  mount(root: ParentNode = document) {
+    this.profileInput = root.querySelector('#presetProfile');
+    this.profileList = root.querySelector('#presetProfiles');
+    this.nameInput = root.querySelector('#presetName');
+    this.presetList = root.querySelector('#presetList');
+    this.fileInput = root.querySelector('#presetImportFile');
+    this.status = root.querySelector('#presetStatus');
+
+    this.profileInput?.addEventListener('change', () => {
+      this.manager.setActiveProfile(this.profileInput!.value);
+      this.refresh();
+      this.setStatus(`Profile: ${this.manager.getActiveProfile()}`);
+    });
+
+    root.querySelector('#presetSaveBtn')?.addEventListener('click', () => this.save());
+    root.querySelector('#presetApplyBtn')?.addEventListener('click', () => this.applySelected());
+    root.querySelector('#presetDeleteBtn')?.addEventListener('click', () => this.deleteSelected());
+    root.querySelector('#presetExportBtn')?.addEventListener('click', () => {
+      this.manager.downloadExport();
+      this.setStatus('Presets exported');
+    });
+    root.querySelector('#presetImportBtn')?.addEventListener('click', () => this.fileInput?.click());
+    this.fileInput?.addEventListener('change', () => this.importSelectedFile());
+
+    // Double-click a preset to apply it
+    this.presetList?.addEventListener('dblclick', () => this.applySelected());
+    this.presetList?.addEventListener('change', () => {
+      const preset = this.getSelected();
+      if (preset && this.nameInput) this.nameInput.value = preset.name;
+    });
+
+    this.refresh();
+  }
+
+  /**
+   * Re-render profiles and the preset list for the current frame
+   */
+  refresh() {
+    if (this.profileInput) {
+      this.profileInput.value = this.manager.getActiveProfile();
+    }
+    if (this.profileList) {
+      this.profileList.innerHTML = '';
+      this.manager.getProfiles().forEach((profile) => {
+        const option = document.createElement('option');
+        option.value = profile;
+        this.profileList!.appendChild(option);
+      });
+    }
+    if (this.presetList) {
+      const selected = this.presetList.value;
+      this.presetList.innerHTML = '';
+      this.manager.list(this.options.getFrameId()).forEach((preset) => {
+        const option = document.createElement('option');
+        option.value = preset.id;
+        option.textContent = preset.frameId ? preset.name : `${preset.name} (all frames)`;
+        this.presetList!.appendChild(option);
+      });
+      this.presetList.value = selected;
+    }
+  }
+
+  private getSelected() {
+    const id = this.presetList?.value;
+    return id ? this.manager.get(id) : null;
+  }
+
+  private save() {
+    const name = this.nameInput?.value ?? '';
+    const preset = this.manager.save(name, this.options.getSettings(), this.options.getFrameId());
+    this.refresh();
+    if (this.presetList) this.presetList.value = preset.id;
+    this.setStatus(`Saved "${preset.name}"`);
+  }
+
+  private applySelected() {
+    const preset = this.getSelected();
+    if (!preset) {
+      this.setStatus('Select a preset first', true);
+      return;
+    }
+    this.options.applySettings({ ...preset.settings });
+    this.setStatus(`Applied "${preset.name}"`);
+  }
+
+  private deleteSelected() {
+    const preset = this.getSelected();
+    if (!preset) {
+      this.setStatus('Select a preset first', true);
+      return;
+    }
+    this.manager.remove(preset.id);
+    this.refresh();
+    this.setStatus(`Deleted "${preset.name}"`);
+  }
+
+  private async importSelectedFile() {
+    const file = this.fileInput?.files?.[0];
+    if (!file) return;
+
+    try {
+      const count = await this.manager.importFile(file);
+      this.refresh();
+      this.setStatus(`Imported ${count} presets`);
+    } catch (error) {
+      console.error('❌ Failed to import presets:', error);
+      this.setStatus('Import failed: invalid preset file', true);
+    } finally {
+      this.fileInput!.value = '';
+    }
+  }
+
+  /**
+   * Show a short-lived status message in place of alert()
+   */
+  setStatus(message: string, isError: boolean = false) {
+    if (!this.status) return;
+    this.status.textContent = message;
+    this.status.classList.toggle('error', isError);
+    window.clearTimeout(this.statusTimeout);
+    this.statusTimeout = window.setTimeout(() => {
+      if (this.status) this.status.textContent = '';
+    }, 3000);
+  }
+}
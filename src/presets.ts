@@ -0,0 +1,276 @@
+// src/presets.ts - Named, versioned glasses presets scoped per frame and user profile
+
+import { DEFAULT_SETTINGS, mergeSettings, type GlassesSettings } from './settings.ts';
+
+export const PRESETS_KEY = 'mindar-glasses-presets';
+export const LEGACY_SETTINGS_KEY = 'mindar-glasses-settings';
+export const PRESET_SCHEMA_VERSION = 2;
+export const DEFAULT_PROFILE = 'default';
+
+export interface Preset {
+  id: string;
+  name: string;
+  frameId: string | null;   // Catalog frame the preset belongs to (null = any frame)
+  profile: string;          // User profile
+  settings: GlassesSettings;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PresetStore {
+  version: number;
+  activeProfile: string;
+  presets: Preset[];
+}
+
+/**
+ * Schema migrations, keyed by the version they upgrade from.
+ * Version 1 is the legacy single settings blob stored under LEGACY_SETTINGS_KEY,
+ * wrapped as `{ version: 1, settings }`.
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  1: ({ settings: legacy }: any) => {
+    const now = Date.now();
+    return {
+      version: 2,
+      activeProfile: DEFAULT_PROFILE,
+      presets: legacy
+        ? [{
+            id: createPresetId(),
+            name: 'Saved',
+            frameId: null,
+            profile: DEFAULT_PROFILE,
+            settings: mergeSettings(DEFAULT_SETTINGS, legacy),
+            createdAt: now,
+            updatedAt: now
+          }]
+        : []
+    };
+  }
+};
+
+function createPresetId(): string {
+  return `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function emptyStore(): PresetStore {
+  return { version: PRESET_SCHEMA_VERSION, activeProfile: DEFAULT_PROFILE, presets: [] };
+}
+
+/**
+ * Upgrade stored data to the current schema version and validate it
+ */
+export function migratePresetStore(data: any): PresetStore {
+  // Anything without a version is the legacy settings blob
+  let current = data && typeof data === 'object' && typeof data.version === 'number'
+    ? data
+    : { version: 1, settings: data };
+
+  while (current.version < PRESET_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) {
+      throw new Error(`No preset migration from version ${current.version}`);
+    }
+    current = migrate(current);
+  }
+  if (current.version > PRESET_SCHEMA_VERSION) {
+    throw new Error(`Preset schema version ${current.version} is newer than supported (${PRESET_SCHEMA_VERSION})`);
+  }
+  if (!Array.isArray(current.presets)) {
+    throw new Error('Invalid preset data: missing presets array');
+  }
+
+  const presets: Preset[] = current.presets
+    .filter((p: any) => p && typeof p.name === 'string')
+    .map((p: any) => ({
+      id: typeof p.id === 'string' ? p.id : createPresetId(),
+      name: p.name,
+      frameId: typeof p.frameId === 'string' ? p.frameId : null,
+      profile: typeof p.profile === 'string' && p.profile ? p.profile : DEFAULT_PROFILE,
+      settings: mergeSettings(DEFAULT_SETTINGS, p.settings),
+      createdAt: typeof p.createdAt === 'number' ? p.createdAt : Date.now(),
+      updatedAt: typeof p.updatedAt === 'number' ? p.updatedAt : Date.now()
+    }));
+
+  return {
+    version: PRESET_SCHEMA_VERSION,
+    activeProfile: typeof current.activeProfile === 'string' && current.activeProfile
+      ? current.activeProfile
+      : DEFAULT_PROFILE,
+    presets
+  };
+}
+
+export class PresetManager {
+  private storage: Storage;
+  private store: PresetStore;
+
+  constructor(storage: Storage = localStorage) {
+    this.storage = storage;
+    this.store = this.load();
+  }
+
+  /**
+   * Load the store, migrating legacy data if needed
+   */
+  private load(): PresetStore {
+    try {
+      const saved = this.storage.getItem(PRESETS_KEY);
+      if (saved) {
+        return migratePresetStore(JSON.parse(saved));
+      }
+
+      const legacy = this.storage.getItem(LEGACY_SETTINGS_KEY);
+      if (legacy) {
+        const store = migratePresetStore(JSON.parse(legacy));
+        this.store = store;
+        this.persist();
+        this.storage.removeItem(LEGACY_SETTINGS_KEY);
+        console.log('🔄 Legacy settings migrated to presets');
+        return store;
+      }
+    } catch (error) {
+      console.error('❌ Failed to load presets:', error);
+    }
+    return emptyStore();
+  }
+
+  private persist() {
+    try {
+      this.storage.setItem(PRESETS_KEY, JSON.stringify(this.store));
+    } catch (error) {
+      console.error('❌ Failed to save presets:', error);
+    }
+  }
+
+  getActiveProfile(): string {
+    return this.store.activeProfile;
+  }
+
+  setActiveProfile(profile: string) {
+    const name = profile.trim() || DEFAULT_PROFILE;
+    this.store.activeProfile = name;
+    this.persist();
+    console.log('👤 Preset profile:', name);
+  }
+
+  /**
+   * All profiles that have presets, plus the active one
+   */
+  getProfiles(): string[] {
+    const profiles = new Set(this.store.presets.map(p => p.profile));
+    profiles.add(this.store.activeProfile);
+    return [...profiles].sort();
+  }
+
+  /**
+   * Presets of the active profile for a frame (including frame-agnostic ones),
+   * most recently updated first
+   */
+  list(frameId: string | null): Preset[] {
+    return this.store.presets
+      .filter(p => p.profile === this.store.activeProfile && (p.frameId === null || p.frameId === frameId))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  get(id: string): Preset | null {
+    return this.store.presets.find(p => p.id === id) ?? null;
+  }
+
+  /**
+   * Most recently updated preset for the active profile and frame
+   */
+  getLatest(frameId: string | null): Preset | null {
+    return this.list(frameId)[0] ?? null;
+  }
+
+  /**
+   * Save settings under a name for the active profile and frame.
+   * A preset with the same name, profile and frame is overwritten.
+   */
+  save(name: string, settings: GlassesSettings, frameId: string | null): Preset {
+    const trimmed = name.trim() || 'Untitled';
+    const now = Date.now();
+    const existing = this.store.presets.find(p =>
+      p.name === trimmed && p.profile === this.store.activeProfile && p.frameId === frameId
+    );
+
+    if (existing) {
+      existing.settings = { ...settings };
+      existing.updatedAt = now;
+      this.persist();
+      console.log('🔖 Preset updated:', trimmed);
+      return existing;
+    }
+
+    const preset: Preset = {
+      id: createPresetId(),
+      name: trimmed,
+      frameId,
+      profile: this.store.activeProfile,
+      settings: { ...settings },
+      createdAt: now,
+      updatedAt: now
+    };
+    this.store.presets.push(preset);
+    this.persist();
+    console.log('🔖 Preset saved:', trimmed);
+    return preset;
+  }
+
+  remove(id: string): boolean {
+    const before = this.store.presets.length;
+    this.store.presets = this.store.presets.filter(p => p.id !== id);
+    if (this.store.presets.length === before) {
+      return false;
+    }
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Serialize all presets to JSON
+   */
+  exportJson(): string {
+    return JSON.stringify(this.store, null, 2);
+  }
+
+  /**
+   * Import presets from JSON (any supported schema version).
+   * Presets are merged in; ones with an existing id are replaced.
+   * @returns Number of presets imported
+   */
+  importJson(json: string): number {
+    const imported = migratePresetStore(JSON.parse(json));
+    imported.presets.forEach((preset) => {
+      const index = this.store.presets.findIndex(p => p.id === preset.id);
+      if (index >= 0) {
+        this.store.presets[index] = preset;
+      } else {
+        this.store.presets.push(preset);
+      }
+    });
+    this.persist();
+    console.log(`📥 Imported ${imported.presets.length} presets`);
+    return imported.presets.length;
+  }
+
+  /**
+   * Download all presets as a JSON file
+   */
+  downloadExport(filename: string = 'glasses-presets.json') {
+    const url = URL.createObjectURL(new Blob([this.exportJson()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Import presets from a user-selected file
+   */
+  async importFile(file: File): Promise<number> {
+    return this.importJson(await file.text());
+  }
+}
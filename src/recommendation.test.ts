@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FrameCatalog } from './catalog.ts';
+import type { FaceMeasurements } from './faceMeasurement.ts';
+import { recommendFrames, scoreFrame } from './recommendation.ts';
+
+const catalog = FrameCatalog.fromManifest({
+  version: 1,
+  frames: [
+    { id: 'narrow', model: 'narrow.glb', lensWidthMm: 47, bridgeWidthMm: 16, templeLengthMm: 135, frameWidthMm: 127 },
+    { id: 'medium', model: 'medium.glb', lensWidthMm: 52, bridgeWidthMm: 18, templeLengthMm: 140, frameWidthMm: 138 },
+    { id: 'wide', model: 'wide.glb', lensWidthMm: 56, bridgeWidthMm: 20, templeLengthMm: 145, frameWidthMm: 150 }
+  ]
+});
+
+/**
+ * Calibrated measurements: temples, PD and inner eye corners in mm
+ */
+function face(faceWidthMm: number, eyeDistanceMm: number, noseWidthMm: number): FaceMeasurements {
+  return {
+    faceWidth: faceWidthMm / 1000,
+    eyeDistance: eyeDistanceMm / 1000,
+    noseWidth: noseWidthMm / 1000,
+    faceHeight: 0.182,
+    confidence: 1,
+    timestamp: 0,
+    metric: { faceWidthMm, eyeDistanceMm, noseWidthMm, faceHeightMm: 182, method: 'iris', errorPercent: 5 }
+  };
+}
+
+describe('recommendFrames', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('ranks frames by face size', () => {
+    expect(recommendFrames(face(127, 57, 28), catalog).frames.map(r => r.frame.id)).toEqual(['narrow', 'medium', 'wide']);
+    expect(recommendFrames(face(139, 63, 31), catalog).frames[0].frame.id).toBe('medium');
+    expect(recommendFrames(face(150, 70, 34), catalog).frames.map(r => r.frame.id)).toEqual(['wide', 'medium', 'narrow']);
+  });
+
+  it('scores every criterion well for a frame that fits an average face', () => {
+    const medium = catalog.getFrame('medium')!;
+    const { criteria, score } = scoreFrame({ faceWidthMm: 139, eyeDistanceMm: 63, noseWidthMm: 31 }, medium);
+    criteria.forEach(c => expect(c.score, c.criterion).toBeGreaterThan(0.8));
+    expect(score).toBeGreaterThan(0.8);
+  });
+
+  it('reports the ideal bridge and lens centre distance', () => {
+    const medium = catalog.getFrame('medium')!;
+    const { criteria } = scoreFrame({ faceWidthMm: 140, eyeDistanceMm: 63, noseWidthMm: 31 }, medium);
+    const byName = Object.fromEntries(criteria.map(c => [c.criterion, c]));
+    expect(byName.bridge.idealMm).toBeCloseTo(18, 6);
+    expect(byName.lensCentre.idealMm).toBe(69);
+  });
+
+  it('flags uncalibrated results as approximate', () => {
+    const { metric, ...raw } = face(140, 63, 31);
+    expect(metric).toBeDefined();
+    const result = recommendFrames(raw, catalog);
+    expect(result.approximate).toBe(true);
+    expect(result.frames[0].frame.id).toBe('medium');
+  });
+});
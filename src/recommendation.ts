@@ -0,0 +1,153 @@
+// src/recommendation.ts - Rank catalog frames by how well they fit a face
+
+import type { FaceMeasurements } from './faceMeasurement.ts';
+import type { FrameCatalog, FrameCatalogEntry } from './catalog.ts';
+
+export type SizeCategory = 'narrow' | 'medium' | 'wide';
+
+export type FitCriterion = 'totalWidth' | 'bridge' | 'lensCentre';
+
+export interface CriterionScore {
+  criterion: FitCriterion;
+  score: number;            // 0-1, 1 = perfect match
+  idealMm: number;          // Value the face calls for
+  actualMm: number;         // Value of the frame
+  explanation: string;
+}
+
+export interface FrameRecommendation {
+  frame: FrameCatalogEntry;
+  score: number;            // Weighted 0-1 score
+  sizeCategory: SizeCategory;
+  criteria: CriterionScore[];
+}
+
+export interface RecommendationResult {
+  sizeCategory: SizeCategory;   // Size category of the customer's face
+  approximate: boolean;         // True when measurements were not calibrated to mm
+  frames: FrameRecommendation[]; // Best match first
+}
+
+// Weights of each criterion in the total score
+const WEIGHTS: Record<FitCriterion, number> = {
+  totalWidth: 0.5,
+  bridge: 0.25,
+  lensCentre: 0.25
+};
+
+// Deviation (mm) at which a criterion's score drops to ~37%
+const TOLERANCE_MM: Record<FitCriterion, number> = {
+  totalWidth: 8,
+  bridge: 3,
+  lensCentre: 4
+};
+
+// Average bridge width (18mm) relative to the average inner eye corner span (31mm)
+const BRIDGE_TO_NOSE_RATIO = 18 / 31;
+
+// Lens centres usually sit ~3mm per eye outside the pupils; lenses are decentred inwards
+const LENS_DECENTRATION_MM = 6;
+
+// Frame / face width boundaries between size categories
+const NARROW_MAX_MM = 130;
+const WIDE_MIN_MM = 140;
+
+// Fallback conversion when uncalibrated: landmarks are in metres
+const UNCALIBRATED_MM_PER_UNIT = 1000;
+
+export function getSizeCategory(widthMm: number): SizeCategory {
+  if (widthMm <= NARROW_MAX_MM) return 'narrow';
+  if (widthMm >= WIDE_MIN_MM) return 'wide';
+  return 'medium';
+}
+
+function scoreDeviation(criterion: FitCriterion, idealMm: number, actualMm: number): number {
+  const deviation = (actualMm - idealMm) / TOLERANCE_MM[criterion];
+  return Math.exp(-deviation * deviation);
+}
+
+function describe(label: string, idealMm: number, actualMm: number, toleranceMm: number): string {
+  const diff = actualMm - idealMm;
+  if (Math.abs(diff) <= toleranceMm / 2) {
+    return `${label} ${actualMm.toFixed(0)}mm matches the ideal ${idealMm.toFixed(0)}mm`;
+  }
+  const direction = diff > 0 ? 'wider' : 'narrower';
+  return `${label} ${actualMm.toFixed(0)}mm is ${Math.abs(diff).toFixed(0)}mm ${direction} than the ideal ${idealMm.toFixed(0)}mm`;
+}
+
+/**
+ * Score a single frame against face dimensions in millimeters
+ */
+export function scoreFrame(
+  face: { faceWidthMm: number; eyeDistanceMm: number; noseWidthMm: number }, // noseWidthMm: inner eye corners
+  frame: FrameCatalogEntry
+): FrameRecommendation {
+  // Total width: frame front should span the temples
+  const widthIdeal = face.faceWidthMm;
+  const width: CriterionScore = {
+    criterion: 'totalWidth',
+    score: scoreDeviation('totalWidth', widthIdeal, frame.frameWidthMm),
+    idealMm: widthIdeal,
+    actualMm: frame.frameWidthMm,
+    explanation: describe('Frame width', widthIdeal, frame.frameWidthMm, TOLERANCE_MM.totalWidth)
+  };
+
+  // Bridge: should rest on the nose without pinching or sliding
+  const bridgeIdeal = face.noseWidthMm * BRIDGE_TO_NOSE_RATIO;
+  const bridge: CriterionScore = {
+    criterion: 'bridge',
+    score: scoreDeviation('bridge', bridgeIdeal, frame.bridgeWidthMm),
+    idealMm: bridgeIdeal,
+    actualMm: frame.bridgeWidthMm,
+    explanation: describe('Bridge', bridgeIdeal, frame.bridgeWidthMm, TOLERANCE_MM.bridge)
+  };
+
+  // Lens centres: distance between optical centres should match the PD plus a little decentration
+  const framePd = frame.lensWidthMm + frame.bridgeWidthMm;
+  const lensCentreIdeal = face.eyeDistanceMm + LENS_DECENTRATION_MM;
+  const lensCentre: CriterionScore = {
+    criterion: 'lensCentre',
+    score: scoreDeviation('lensCentre', lensCentreIdeal, framePd),
+    idealMm: lensCentreIdeal,
+    actualMm: framePd,
+    explanation: describe('Lens centre distance', lensCentreIdeal, framePd, TOLERANCE_MM.lensCentre)
+  };
+
+  const criteria = [width, bridge, lensCentre];
+  const score = criteria.reduce((sum, c) => sum + c.score * WEIGHTS[c.criterion], 0);
+
+  return {
+    frame,
+    score,
+    sizeCategory: getSizeCategory(frame.frameWidthMm),
+    criteria
+  };
+}
+
+/**
+ * Rank every frame in the catalog for the given (averaged) measurements
+ */
+export function recommendFrames(measurements: FaceMeasurements, catalog: FrameCatalog): RecommendationResult {
+  const metric = measurements.metric;
+  const face = metric
+    ? {
+        faceWidthMm: metric.faceWidthMm,
+        eyeDistanceMm: metric.eyeDistanceMm,
+        noseWidthMm: metric.noseWidthMm
+      }
+    : {
+        faceWidthMm: measurements.faceWidth * UNCALIBRATED_MM_PER_UNIT,
+        eyeDistanceMm: measurements.eyeDistance * UNCALIBRATED_MM_PER_UNIT,
+        noseWidthMm: measurements.noseWidth * UNCALIBRATED_MM_PER_UNIT
+      };
+
+  const frames = catalog.getFrames()
+    .map(frame => scoreFrame(face, frame))
+    .sort((a, b) => b.score - a.score);
+
+  return {
+    sizeCategory: getSizeCategory(face.faceWidthMm),
+    approximate: !metric,
+    frames
+  };
+}
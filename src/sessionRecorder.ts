@@ -0,0 +1,279 @@
+// src/sessionRecorder.ts - Record tracking data into a versioned session file
+
+import type { FaceMeasurements, FaceMeasurementSystem, LandmarkPoint, MeasurementSystemState } from './faceMeasurement.ts';
+import type { AutoAdjuster, AutoAdjusterState } from './autoAdjuster.ts';
+import type { LandmarkSource, LandmarkSpace } from './landmarkSource.ts';
+import { systemClock, type Clock } from './clock.ts';
+import type { Unsubscribe } from './eventEmitter.ts';
+
+export const SESSION_VERSION = 2;
+
+// Version 1 files have no initial state and separate landmark events
+const SUPPORTED_VERSIONS = [1, SESSION_VERSION];
+
+/**
+ * Anchor transform and landmarks a measurement was computed from,
+ * captured while measureFace() read them
+ */
+export interface MeasurementInput {
+  matrix: number[];
+  visible: boolean;
+  landmarks: number[] | null;   // Flattened x, y, z
+}
+
+/**
+ * Events are stored in recording order; `t` is milliseconds since `startedAt`
+ */
+export type SessionEvent =
+  | { t: number; type: 'anchor'; matrix: number[]; visible: boolean }
+  | { t: number; type: 'targetFound' }
+  | { t: number; type: 'targetLost' }
+  | { t: number; type: 'landmarks'; landmarks: number[] | null }  // Version 1 only
+  | { t: number; type: 'measurement'; measurement: FaceMeasurements; input?: MeasurementInput };
+
+/**
+ * State of the app when recording started
+ */
+export interface SessionInitialState {
+  measurement: MeasurementSystemState;
+  autoAdjuster: AutoAdjusterState | null;
+}
+
+export interface TrackingSession {
+  version: number;
+  startedAt: number;    // Clock time when recording started (epoch ms)
+  duration: number;     // Milliseconds
+  landmarkSource: string | null;
+  landmarkSpace?: LandmarkSpace;  // Defaults to 'face'
+  userAgent: string;
+  initialState?: SessionInitialState;  // Version 2
+  events: SessionEvent[];
+}
+
+export function flattenLandmarks(landmarks: LandmarkPoint[]): number[] {
+  const flat: number[] = [];
+  landmarks.forEach(p => flat.push(p.x, p.y, p.z));
+  return flat;
+}
+
+export function unflattenLandmarks(flat: number[]): LandmarkPoint[] {
+  const points: LandmarkPoint[] = [];
+  for (let i = 0; i + 2 < flat.length; i += 3) {
+    points.push({ x: flat[i], y: flat[i + 1], z: flat[i + 2] });
+  }
+  return points;
+}
+
+/**
+ * Parse and validate a session file
+ */
+export function parseSession(data: any): TrackingSession {
+  if (!data || typeof data !== 'object' || !Array.isArray(data.events)) {
+    throw new Error('Invalid session file: missing events');
+  }
+  if (!SUPPORTED_VERSIONS.includes(data.version)) {
+    throw new Error(`Unsupported session version: ${data.version}`);
+  }
+  return data as TrackingSession;
+}
+
+/**
+ * Wraps a landmark source and reports every landmark set it returns
+ */
+class RecordingLandmarkSource implements LandmarkSource {
+  readonly name: string;
+  readonly space: LandmarkSpace;
+  private inner: LandmarkSource;
+  private onRead: (landmarks: LandmarkPoint[] | null) => void;
+
+  constructor(inner: LandmarkSource, onRead: (landmarks: LandmarkPoint[] | null) => void) {
+    this.inner = inner;
+    this.name = inner.name;
+    this.space = inner.space;
+    this.onRead = onRead;
+  }
+
+  getLandmarks(): LandmarkPoint[] | null {
+    const landmarks = this.inner.getLandmarks();
+    this.onRead(landmarks);
+    return landmarks;
+  }
+
+  unwrap(): LandmarkSource {
+    return this.inner;
+  }
+}
+
+/**
+ * Records the measurement and auto-adjust state at the start, then anchor
+ * transforms, visibility, face found/lost events and emitted
+ * FaceMeasurements with the landmarks and transform each was computed from
+ */
+export class SessionRecorder {
+  private anchorEntity: any;
+  private measurementSystem: FaceMeasurementSystem;
+  private autoAdjuster: AutoAdjuster | null;
+  private clock: Clock;
+  private session: TrackingSession | null = null;
+  private frameId: number | null = null;
+  private lastMatrix: number[] | null = null;
+  private lastVisible: boolean | null = null;
+  private measurementUnsubscribe: Unsubscribe | null = null;
+  private recordingSource: RecordingLandmarkSource | null = null;
+  private pendingInput: MeasurementInput | null = null;
+  private onTargetFound = () => this.push({ t: this.elapsed(), type: 'targetFound' });
+  private onTargetLost = () => this.push({ t: this.elapsed(), type: 'targetLost' });
+
+  constructor(
+    anchorEntity: any,
+    measurementSystem: FaceMeasurementSystem,
+    autoAdjuster: AutoAdjuster | null = null,
+    clock: Clock = systemClock
+  ) {
+    this.anchorEntity = anchorEntity;
+    this.measurementSystem = measurementSystem;
+    this.autoAdjuster = autoAdjuster;
+    this.clock = clock;
+  }
+
+  isRecording(): boolean {
+    return this.session !== null;
+  }
+
+  /**
+   * Start a new recording
+   */
+  start() {
+    if (this.session) {
+      console.warn('⚠️ Recording already in progress');
+      return;
+    }
+
+    const source = this.measurementSystem.getLandmarkSource();
+    this.session = {
+      version: SESSION_VERSION,
+      startedAt: this.clock.now(),
+      duration: 0,
+      landmarkSource: source?.name ?? null,
+      landmarkSpace: source?.space,
+      userAgent: navigator.userAgent,
+      initialState: {
+        measurement: this.measurementSystem.getState(),
+        autoAdjuster: this.autoAdjuster?.getState() ?? null
+      },
+      events: []
+    };
+    this.lastMatrix = null;
+    this.lastVisible = null;
+    this.pendingInput = null;
+
+    this.anchorEntity.addEventListener('targetFound', this.onTargetFound);
+    this.anchorEntity.addEventListener('targetLost', this.onTargetLost);
+    this.measurementUnsubscribe = this.measurementSystem.onMeasurementUpdate((measurement) => {
+      this.push({
+        t: measurement.timestamp - this.session!.startedAt,
+        type: 'measurement',
+        measurement,
+        input: this.pendingInput ?? undefined
+      });
+      this.pendingInput = null;
+    });
+
+    // Capture the inputs as the measurement system reads them. measureFace()
+    // reads the anchor right after the landmarks, so this is the transform it uses.
+    if (source) {
+      this.recordingSource = new RecordingLandmarkSource(source, (landmarks) => {
+        const object3D = this.anchorEntity.object3D;
+        this.pendingInput = {
+          matrix: Array.from(object3D.matrix.elements),
+          visible: !!object3D.visible,
+          landmarks: landmarks ? flattenLandmarks(landmarks) : null
+        };
+      });
+      this.measurementSystem.setLandmarkSource(this.recordingSource, false);
+    }
+
+    const tick = () => {
+      this.sample();
+      this.frameId = requestAnimationFrame(tick);
+    };
+    this.frameId = requestAnimationFrame(tick);
+    console.log('🔴 Session recording started');
+  }
+
+  /**
+   * Stop recording and return the session
+   */
+  stop(): TrackingSession | null {
+    if (!this.session) {
+      return null;
+    }
+
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+    this.sample();
+    this.anchorEntity.removeEventListener('targetFound', this.onTargetFound);
+    this.anchorEntity.removeEventListener('targetLost', this.onTargetLost);
+    this.measurementUnsubscribe?.();
+    this.measurementUnsubscribe = null;
+
+    if (this.recordingSource) {
+      this.measurementSystem.setLandmarkSource(this.recordingSource.unwrap(), false);
+      this.recordingSource = null;
+    }
+
+    const session = this.session;
+    session.duration = this.elapsed();
+    this.session = null;
+    console.log(`⏹️ Session recording stopped: ${session.events.length} events`);
+    return session;
+  }
+
+  /**
+   * Serialize a session to a downloadable JSON blob
+   */
+  static toBlob(session: TrackingSession): Blob {
+    return new Blob([JSON.stringify(session)], { type: 'application/json' });
+  }
+
+  /**
+   * Trigger a browser download of a session file
+   */
+  static download(session: TrackingSession, filename: string = `tryon-session-${session.startedAt}.json`) {
+    const url = URL.createObjectURL(SessionRecorder.toBlob(session));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private elapsed(): number {
+    return this.session ? this.clock.now() - this.session.startedAt : 0;
+  }
+
+  private push(event: SessionEvent) {
+    this.session?.events.push(event);
+  }
+
+  /**
+   * Record the anchor transform
+   */
+  private sample() {
+    const object3D = this.anchorEntity.object3D;
+    if (object3D) {
+      const matrix: number[] = Array.from(object3D.matrix.elements);
+      const visible = !!object3D.visible;
+      const changed = visible !== this.lastVisible
+        || !this.lastMatrix
+        || matrix.some((v, i) => v !== this.lastMatrix![i]);
+      if (changed) {
+        this.push({ t: this.elapsed(), type: 'anchor', matrix, visible });
+        this.lastMatrix = matrix;
+        this.lastVisible = visible;
+      }
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AutoAdjuster } from './autoAdjuster.ts';
+import { VirtualClock } from './clock.ts';
+import { FaceMeasurementSystem } from './faceMeasurement.ts';
+import { SessionRecorder } from './sessionRecorder.ts';
+import { SessionReplay } from './sessionReplay.ts';
+import { SyntheticFace } from './syntheticFace.ts';
+
+describe('SessionReplay', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubGlobal('navigator', { userAgent: 'vitest' });
+    vi.stubGlobal('requestAnimationFrame', () => 0);
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reproduces a recording that starts mid-session', () => {
+    const clock = new VirtualClock(1_000_000);
+    const face = new SyntheticFace({ faceWidthMm: 150, pose: { yaw: 20, pitch: 0, roll: 0 }, jitterMm: 0.3, poseJitterDeg: 1, dropoutRate: 0.02, seed: 3 });
+    const measurementSystem = new FaceMeasurementSystem(clock);
+    measurementSystem.initialize(face.anchor);
+    measurementSystem.setLandmarkSource(face);
+    measurementSystem.setPoseGate({ maxYaw: 30 });
+
+    const autoAdjuster = new AutoAdjuster(measurementSystem, clock);
+    autoAdjuster.setAutoScaleEnabled(true);
+    autoAdjuster.setBaseScale(1.2);
+    autoAdjuster.setAutoRotationEnabled(true);
+    autoAdjuster.setBaseRotation({ rotX: 2, rotY: 0, rotZ: 0 });
+    const recorded: number[] = [];
+    autoAdjuster.enable(settings => recorded.push(settings.scale));
+
+    clock.setInterval(() => face.update(), 1000 / 30);
+    clock.setInterval(() => {
+      if (face.anchor.object3D.visible) measurementSystem.measureFace();
+    }, 1000);
+
+    // Fill the window and filters before recording starts
+    clock.advance(7500);
+    const recorder = new SessionRecorder(face.anchor, measurementSystem, autoAdjuster, clock);
+    recorder.start();
+    clock.advance(12000);
+    const session = JSON.parse(JSON.stringify(recorder.stop()));
+    const average = measurementSystem.getAverageMeasurements();
+
+    const replay = new SessionReplay(session);
+    expect(replay.autoAdjuster.isAutoScaleEnabled()).toBe(true);
+    expect(replay.autoAdjuster.getState()).toEqual(autoAdjuster.getState());
+
+    const result = replay.run();
+    expect(result.measurements.length).toBeGreaterThan(5);
+    expect(result.mismatches).toBe(0);
+    expect(replay.measurementSystem.getAverageMeasurements()).toEqual(average);
+    expect(result.adjustments.length).toBeGreaterThan(0);
+    result.adjustments.forEach(({ settings }) => expect(settings.scale).toBeGreaterThan(1.2));
+  });
+});
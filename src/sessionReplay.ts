@@ -0,0 +1,199 @@
+// src/sessionReplay.ts - Replay recorded sessions on a virtual clock (no camera)
+
+import { Object3D } from 'three';
+import { FaceMeasurementSystem, type FaceMeasurements, type LandmarkPoint } from './faceMeasurement.ts';
+import { AutoAdjuster, type AdjustmentSettings } from './autoAdjuster.ts';
+import type { LandmarkSource, LandmarkSpace } from './landmarkSource.ts';
+import type { MeasurementFilterOptions } from './filters.ts';
+import { VirtualClock } from './clock.ts';
+import { parseSession, unflattenLandmarks, type SessionEvent, type TrackingSession } from './sessionRecorder.ts';
+
+export interface ReplayOptions {
+  autoAdjust?: boolean;       // Run AutoAdjuster during replay (default: true)
+  autoScale?: boolean;        // AutoAdjuster.setAutoScaleEnabled (default: as recorded, else false)
+  filterOptions?: Partial<MeasurementFilterOptions>;  // Replaces the recorded filter (and its state)
+}
+
+export interface ReplayResult {
+  measurements: FaceMeasurements[];
+  adjustments: { t: number; settings: AdjustmentSettings }[];
+  mismatches: number;         // Replayed measurements that differ from the recording
+}
+
+/**
+ * Returns whatever landmarks the replay has most recently fed in
+ */
+class ReplayLandmarkSource implements LandmarkSource {
+  readonly name = 'replay';
+  readonly space: LandmarkSpace;
+  current: LandmarkPoint[] | null = null;
+
+  constructor(space: LandmarkSpace) {
+    this.space = space;
+  }
+
+  getLandmarks(): LandmarkPoint[] | null {
+    return this.current;
+  }
+}
+
+/**
+ * Stand-in for the `#glasses-anchor` entity
+ */
+export class ReplayAnchor {
+  object3D = new Object3D();
+  private listeners = new Map<string, Set<(event: any) => void>>();
+
+  constructor() {
+    this.object3D.matrixAutoUpdate = false;
+    this.object3D.visible = false;
+  }
+
+  addEventListener(type: string, listener: (event: any) => void) {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(listener);
+  }
+
+  removeEventListener(type: string, listener: (event: any) => void) {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  dispatch(type: string) {
+    this.listeners.get(type)?.forEach(listener => listener({ type, target: this }));
+  }
+
+  setMatrix(elements: number[], visible: boolean) {
+    this.object3D.matrix.fromArray(elements);
+    this.object3D.matrix.decompose(this.object3D.position, this.object3D.quaternion, this.object3D.scale);
+    this.object3D.visible = visible;
+  }
+}
+
+function sameMeasurement(a: FaceMeasurements, b: FaceMeasurements): boolean {
+  const keys: (keyof FaceMeasurements)[] = ['faceWidth', 'eyeDistance', 'noseWidth', 'faceHeight', 'confidence', 'timestamp'];
+  return keys.every(key => Math.abs((a[key] as number) - (b[key] as number)) < 1e-9);
+}
+
+/**
+ * Feeds a recorded session into fresh FaceMeasurementSystem and AutoAdjuster
+ * instances on a virtual clock, so a run is reproduced exactly. Both start
+ * from the state recorded when the session began.
+ */
+export class SessionReplay {
+  readonly clock: VirtualClock;
+  readonly anchor = new ReplayAnchor();
+  readonly measurementSystem: FaceMeasurementSystem;
+  readonly autoAdjuster: AutoAdjuster;
+  private session: TrackingSession;
+  private events: SessionEvent[];
+  private index: number = 0;
+  private source: ReplayLandmarkSource;
+  private result: ReplayResult = { measurements: [], adjustments: [], mismatches: 0 };
+
+  constructor(session: TrackingSession, options: ReplayOptions = {}) {
+    this.session = parseSession(session);
+    // Stable sort keeps recording order for events with the same timestamp
+    this.events = [...this.session.events].sort((a, b) => a.t - b.t);
+    this.source = new ReplayLandmarkSource(this.session.landmarkSpace ?? 'face');
+
+    this.clock = new VirtualClock(this.session.startedAt);
+    this.measurementSystem = new FaceMeasurementSystem(this.clock);
+    this.measurementSystem.initialize(this.anchor);
+    this.measurementSystem.setLandmarkSource(this.source);
+    const initialState = this.session.initialState;
+    if (initialState) {
+      this.measurementSystem.restoreState(initialState.measurement);
+    }
+    if (options.filterOptions) {
+      this.measurementSystem.setFilterOptions(options.filterOptions);
+    }
+
+    this.autoAdjuster = new AutoAdjuster(this.measurementSystem, this.clock);
+    if (initialState?.autoAdjuster) {
+      this.autoAdjuster.restoreState(initialState.autoAdjuster);
+    }
+    if (options.autoScale !== undefined || !initialState?.autoAdjuster) {
+      this.autoAdjuster.setAutoScaleEnabled(options.autoScale ?? false);
+    }
+    if (options.autoAdjust ?? true) {
+      this.autoAdjuster.enable((settings) => {
+        this.result.adjustments.push({ t: this.clock.now() - this.session.startedAt, settings });
+      });
+    }
+  }
+
+  /**
+   * Load a session file from a URL
+   */
+  static async fromUrl(url: string, options?: ReplayOptions): Promise<SessionReplay> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load session ${url}: ${response.status}`);
+    }
+    return new SessionReplay(parseSession(await response.json()), options);
+  }
+
+  /**
+   * Process the next event. Returns false when the session is finished.
+   */
+  step(): boolean {
+    const event = this.events[this.index];
+    if (!event) {
+      return false;
+    }
+    this.index++;
+    this.clock.advanceTo(this.session.startedAt + event.t);
+
+    switch (event.type) {
+      case 'anchor':
+        this.anchor.setMatrix(event.matrix, event.visible);
+        break;
+      case 'targetFound':
+      case 'targetLost':
+        this.anchor.dispatch(event.type);
+        break;
+      case 'landmarks':
+        this.source.current = event.landmarks ? unflattenLandmarks(event.landmarks) : null;
+        break;
+      case 'measurement': {
+        // Measure exactly when the recording did, from the same landmarks and transform
+        if (event.input) {
+          this.anchor.setMatrix(event.input.matrix, event.input.visible);
+          this.source.current = event.input.landmarks ? unflattenLandmarks(event.input.landmarks) : null;
+        }
+        const replayed = this.measurementSystem.measureFace();
+        if (replayed) {
+          this.result.measurements.push(replayed);
+        }
+        if (!replayed || !sameMeasurement(replayed, event.measurement)) {
+          this.result.mismatches++;
+        }
+        break;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Replay events up to a time (ms since session start)
+   */
+  runUntil(t: number) {
+    while (this.index < this.events.length && this.events[this.index].t <= t) {
+      this.step();
+    }
+    this.clock.advanceTo(this.session.startedAt + t);
+  }
+
+  /**
+   * Replay the whole session
+   */
+  run(): ReplayResult {
+    while (this.step()) {
+      // Keep stepping
+    }
+    this.clock.advanceTo(this.session.startedAt + this.session.duration);
+    this.autoAdjuster.disable();
+    console.log(`⏯️ Replay finished: ${this.result.measurements.length} measurements, ${this.result.mismatches} mismatches`);
+    return this.result;
+  }
+}
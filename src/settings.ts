@@ -0,0 +1,75 @@
+// src/settings.ts - Glasses transform settings shared across modules
+
+export interface GlassesSettings {
+  posX: number;
+  posY: number;
+  posZ: number;
+  scale: number;
+  rotX: number;
+  rotY: number;
+  rotZ: number;
+}
+
+/**
+ * Default transform, matching the `#glasses` entity in index.html
+ */
+export const DEFAULT_SETTINGS: GlassesSettings = {
+  posX: 0,
+  posY: 0,
+  posZ: -0.15,
+  scale: 0.1,
+  rotX: 0,
+  rotY: 0,
+  rotZ: 0
+};
+
+export interface SettingRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+/**
+ * Range of each setting, matching the sliders in index.html
+ */
+export const SETTINGS_RANGES: Record<keyof GlassesSettings, SettingRange> = {
+  posX: { min: -0.5, max: 0.5, step: 0.01 },
+  posY: { min: -0.5, max: 0.5, step: 0.01 },
+  posZ: { min: -0.5, max: 0.5, step: 0.01 },
+  scale: { min: 0.05, max: 1.5, step: 0.05 },
+  rotX: { min: -30, max: 30, step: 1 },
+  rotY: { min: -180, max: 180, step: 1 },
+  rotZ: { min: -30, max: 30, step: 1 }
+};
+
+/**
+ * Clamp each given setting to its slider range
+ */
+export function clampSettings(partial: Partial<GlassesSettings>): Partial<GlassesSettings> {
+  const result: Partial<GlassesSettings> = {};
+  (Object.keys(partial) as (keyof GlassesSettings)[]).forEach((key) => {
+    const range = SETTINGS_RANGES[key];
+    const value = partial[key];
+    if (range && value !== undefined) {
+      result[key] = Math.min(range.max, Math.max(range.min, value));
+    }
+  });
+  return result;
+}
+
+/**
+ * Merge a partial settings object over a base, ignoring non-numeric values
+ */
+export function mergeSettings(base: GlassesSettings, partial: Partial<Record<keyof GlassesSettings, unknown>> | null | undefined): GlassesSettings {
+  const result = { ...base };
+  if (!partial) {
+    return result;
+  }
+  (Object.keys(base) as (keyof GlassesSettings)[]).forEach((key) => {
+    const value = partial[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      result[key] = value;
+    }
+  });
+  return result;
+}
@@ -0,0 +1,86 @@
+// src/settingsHistory.ts - Undo/redo of glasses settings and axis locks
+
+import type { GlassesSettings } from './settings.ts';
+
+export type SettingsAxis = keyof GlassesSettings;
+
+/**
+ * A restorable state: the settings and which axes the user had locked
+ */
+export interface SettingsSnapshot {
+  settings: GlassesSettings;
+  locked: SettingsAxis[];
+}
+
+export interface HistoryEntry extends SettingsSnapshot {
+  source: string;               // What produced the change that followed this state
+  timestamp: number;
+}
+
+const MAX_ENTRIES = 100;
+const COALESCE_MS = 500;        // Slider drags of the same source merge into one step
+
+export class SettingsHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  /**
+   * Record the state before a change. Rapid changes from the same source
+   * (one slider drag) collapse into a single undo step.
+   */
+  record(before: SettingsSnapshot, source: string, timestamp: number = Date.now()) {
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (last && last.source === source && timestamp - last.timestamp < COALESCE_MS) {
+      last.timestamp = timestamp;
+    } else {
+      this.undoStack.push({ ...cloneSnapshot(before), source, timestamp });
+      if (this.undoStack.length > MAX_ENTRIES) {
+        this.undoStack.shift();
+      }
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Step back
+   * @param current - The state being left, so it can be redone
+   * @returns The state to restore, or null if there is nothing to undo
+   */
+  undo(current: SettingsSnapshot): HistoryEntry | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+    this.redoStack.push({ ...cloneSnapshot(current), source: entry.source, timestamp: Date.now() });
+    return entry;
+  }
+
+  redo(current: SettingsSnapshot): HistoryEntry | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+    this.undoStack.push({ ...cloneSnapshot(current), source: entry.source, timestamp: 0 }); // Never coalesced
+    return entry;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Sources of the undoable steps, oldest first
+   */
+  list(): { source: string; timestamp: number }[] {
+    return this.undoStack.map(({ source, timestamp }) => ({ source, timestamp }));
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
+
+function cloneSnapshot(snapshot: SettingsSnapshot): SettingsSnapshot {
+  return { settings: { ...snapshot.settings }, locked: [...snapshot.locked] };
+}
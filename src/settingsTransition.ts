@@ -0,0 +1,205 @@
+// src/settingsTransition.ts - Animate the glasses between settings instead of jumping
+
+import type { GlassesSettings } from './settings.ts';
+import type { SettingsAxis } from './settingsHistory.ts';
+
+/**
+ * spring: critically damped spring, keeps its velocity when the target moves
+ * tween: eased interpolation over a fixed duration, restarted on each new target
+ * none: jump straight to the target
+ */
+export type TransitionMode = 'spring' | 'tween' | 'none';
+
+export type EasingName = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export interface TransitionOptions {
+  mode: TransitionMode;
+  duration: number;                             // ms; a spring gets within 1% in about this time
+  easing: EasingName | ((t: number) => number); // Tween only
+  deadBands: Record<SettingsAxis, number>;      // Automatic changes smaller than this are ignored
+}
+
+export const DEFAULT_TRANSITION: TransitionOptions = {
+  mode: 'spring',
+  duration: 400,
+  easing: 'ease-in-out',
+  deadBands: {
+    posX: 0.001,                // Anchor units (≈ 0.15 mm on an average face)
+    posY: 0.001,
+    posZ: 0.001,
+    scale: 0.002,
+    rotX: 0.5,                  // Degrees
+    rotY: 0.5,
+    rotZ: 0.5
+  }
+};
+
+const EASINGS: Record<EasingName, (t: number) => number> = {
+  'linear': t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': t => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+};
+
+// A critically damped spring decays as (1 + ωt)e^(-ωt), which reaches 1% at ωt ≈ 6.64
+const SPRING_SETTLE = 6.64;
+
+// Close enough to snap to the target, relative to each axis' dead-band
+const SETTLE_FRACTION = 0.05;
+
+interface AxisState {
+  value: number;
+  velocity: number;             // Units per second (spring)
+  from: number;                 // Tween start
+}
+
+/**
+ * Drop automatic changes that fall inside an axis' dead-band
+ */
+export function applyDeadBands(
+  current: GlassesSettings,
+  partial: Partial<GlassesSettings>,
+  deadBands: Record<SettingsAxis, number>
+): Partial<GlassesSettings> {
+  const result: Partial<GlassesSettings> = {};
+  (Object.keys(partial) as SettingsAxis[]).forEach((axis) => {
+    const value = partial[axis];
+    if (value !== undefined && Math.abs(value - current[axis]) >= (deadBands[axis] ?? 0)) {
+      result[axis] = value;
+    }
+  });
+  return result;
+}
+
+/**
+ * Interpolates the displayed settings towards a target. Call step() every
+ * frame while isAnimating() is true.
+ */
+export class SettingsTransition {
+  private options: TransitionOptions;
+  private target: GlassesSettings;
+  private axes: Record<SettingsAxis, AxisState>;
+  private elapsed: number = 0;  // ms since the tween started
+  private animating: boolean = false;
+
+  constructor(initial: GlassesSettings, options: Partial<TransitionOptions> = {}) {
+    this.options = { ...DEFAULT_TRANSITION, ...options };
+    this.target = { ...initial };
+    this.axes = {} as Record<SettingsAxis, AxisState>;
+    (Object.keys(initial) as SettingsAxis[]).forEach((axis) => {
+      this.axes[axis] = { value: initial[axis], velocity: 0, from: initial[axis] };
+    });
+  }
+
+  getOptions(): TransitionOptions {
+    return { ...this.options, deadBands: { ...this.options.deadBands } };
+  }
+
+  setOptions(options: Partial<TransitionOptions>) {
+    this.options = {
+      ...this.options,
+      ...options,
+      deadBands: { ...this.options.deadBands, ...options.deadBands }
+    };
+    if (this.options.mode === 'none') {
+      this.jump();
+    }
+  }
+
+  /**
+   * Move towards new settings
+   * @param immediate - Jump there (manual input follows the finger without lag)
+   */
+  setTarget(target: GlassesSettings, immediate: boolean = false) {
+    this.target = { ...target };
+    if (immediate || this.options.mode === 'none' || this.options.duration <= 0) {
+      this.jump();
+      return;
+    }
+
+    this.elapsed = 0;
+    (Object.keys(this.axes) as SettingsAxis[]).forEach((axis) => {
+      this.axes[axis].from = this.axes[axis].value;
+    });
+    this.animating = true;
+  }
+
+  /**
+   * Advance the animation
+   * @param dt - Milliseconds since the last step
+   * @returns Whether the animation is still running
+   */
+  step(dt: number): boolean {
+    if (!this.animating) return false;
+
+    if (this.options.mode === 'tween') {
+      this.stepTween(dt);
+    } else {
+      this.stepSpring(dt);
+    }
+    return this.animating;
+  }
+
+  private stepTween(dt: number) {
+    this.elapsed += dt;
+    const progress = Math.min(1, this.elapsed / this.options.duration);
+    const easing = typeof this.options.easing === 'function' ? this.options.easing : EASINGS[this.options.easing];
+    const eased = easing(progress);
+
+    (Object.keys(this.axes) as SettingsAxis[]).forEach((axis) => {
+      const state = this.axes[axis];
+      state.value = state.from + (this.target[axis] - state.from) * eased;
+    });
+    if (progress >= 1) {
+      this.jump();
+    }
+  }
+
+  /**
+   * Exact critically damped step, stable for any frame time
+   */
+  private stepSpring(dt: number) {
+    const omega = SPRING_SETTLE / (this.options.duration / 1000);
+    const t = dt / 1000;
+    const decay = Math.exp(-omega * t);
+    let settled = true;
+
+    (Object.keys(this.axes) as SettingsAxis[]).forEach((axis) => {
+      const state = this.axes[axis];
+      const offset = state.value - this.target[axis];
+      const slope = state.velocity + omega * offset;
+      state.value = this.target[axis] + (offset + slope * t) * decay;
+      state.velocity = (state.velocity - omega * slope * t) * decay;
+
+      const tolerance = (this.options.deadBands[axis] || 1e-4) * SETTLE_FRACTION;
+      if (Math.abs(state.value - this.target[axis]) > tolerance || Math.abs(state.velocity) / omega > tolerance) {
+        settled = false;
+      }
+    });
+    if (settled) {
+      this.jump();
+    }
+  }
+
+  private jump() {
+    (Object.keys(this.axes) as SettingsAxis[]).forEach((axis) => {
+      this.axes[axis] = { value: this.target[axis], velocity: 0, from: this.target[axis] };
+    });
+    this.animating = false;
+  }
+
+  /**
+   * Settings to display now
+   */
+  getCurrent(): GlassesSettings {
+    const current = { ...this.target };
+    (Object.keys(this.axes) as SettingsAxis[]).forEach((axis) => {
+      current[axis] = this.axes[axis].value;
+    });
+    return current;
+  }
+
+  isAnimating(): boolean {
+    return this.animating;
+  }
+}
@@ -0,0 +1,192 @@
+// src/snapshot.ts - Composite the camera video and the A-Frame canvas into an image
+
+import type { FaceMeasurements } from './faceMeasurement.ts';
+
+export interface SnapshotOptions {
+  type?: 'image/png' | 'image/jpeg';
+  quality?: number;             // JPEG quality 0–1
+  maxWidth?: number;            // Downscale to at most this width (e.g. thumbnails)
+  overlays?: {
+    frameName?: boolean;        // Draw the frame's name
+    measurements?: boolean;     // Draw the current FaceMeasurements
+  };
+}
+
+export interface SnapshotOverlayData {
+  frameName: string | null;
+  measurements: FaceMeasurements | null;
+}
+
+/**
+ * Element's box relative to a container, in CSS pixels
+ */
+function getRelativeRect(element: Element, container: Element) {
+  const rect = element.getBoundingClientRect();
+  const origin = container.getBoundingClientRect();
+  return { x: rect.left - origin.left, y: rect.top - origin.top, width: rect.width, height: rect.height };
+}
+
+/**
+ * MindAR mirrors the front camera with a CSS transform
+ */
+export function isMirrored(element: Element): boolean {
+  const transform = getComputedStyle(element).transform;
+  return transform.startsWith('matrix(-1') || transform.startsWith('matrix3d(-1');
+}
+
+function drawMirrored(
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  x: number, y: number, width: number, height: number,
+  mirrored: boolean
+) {
+  if (!mirrored) {
+    ctx.drawImage(source, x, y, width, height);
+    return;
+  }
+  ctx.save();
+  ctx.translate(x + width, y);
+  ctx.scale(-1, 1);
+  ctx.drawImage(source, 0, 0, width, height);
+  ctx.restore();
+}
+
+function formatMm(value: number | undefined, fallbackMetres: number): string {
+  return value !== undefined ? `${value.toFixed(0)} mm` : `~${(fallbackMetres * 1000).toFixed(0)} mm`;
+}
+
+function getOverlayLines(data: SnapshotOverlayData, options: SnapshotOptions): string[] {
+  const lines: string[] = [];
+  if (options.overlays?.frameName && data.frameName) {
+    lines.push(data.frameName);
+  }
+  const m = data.measurements;
+  if (options.overlays?.measurements && m) {
+    lines.push(`Face width: ${formatMm(m.metric?.faceWidthMm, m.faceWidth)}`);
+    lines.push(`PD: ${formatMm(m.metric?.eyeDistanceMm, m.eyeDistance)}`);
+    if (m.shape) {
+      lines.push(`Face shape: ${m.shape.shape}`);
+    }
+  }
+  return lines;
+}
+
+function drawOverlay(ctx: CanvasRenderingContext2D, lines: string[], width: number, height: number) {
+  if (lines.length === 0) return;
+
+  const fontSize = Math.round(Math.max(14, width / 40));
+  const padding = Math.round(fontSize * 0.6);
+  const lineHeight = Math.round(fontSize * 1.3);
+  ctx.font = `${fontSize}px Arial, sans-serif`;
+  ctx.textBaseline = 'top';
+
+  const boxWidth = Math.max(...lines.map(line => ctx.measureText(line).width)) + padding * 2;
+  const boxHeight = lines.length * lineHeight + padding * 2;
+  const x = padding;
+  const y = height - boxHeight - padding;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(x, y, boxWidth, boxHeight);
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((line, i) => ctx.fillText(line, x + padding, y + padding + i * lineHeight));
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode snapshot'));
+      }
+    }, type, quality);
+  });
+}
+
+/**
+ * Capture what the user sees: the MindAR video layer with the glasses on top.
+ * The output uses the camera's native resolution for the visible area.
+ */
+export async function captureSnapshot(
+  sceneEl: any,
+  data: SnapshotOverlayData,
+  options: SnapshotOptions = {}
+): Promise<Blob> {
+  const glCanvas: HTMLCanvasElement | undefined = sceneEl?.canvas;
+  const container: HTMLElement | null = sceneEl?.parentElement ?? null;
+  if (!glCanvas || !container) {
+    throw new Error('Scene is not ready for snapshots');
+  }
+  // MindAR adds its video element next to the scene
+  const video = container.querySelector('video');
+
+  const view = getRelativeRect(glCanvas, container);
+  if (view.width === 0 || view.height === 0) {
+    throw new Error('Scene is not visible');
+  }
+
+  // Pixels per CSS pixel: native video resolution, never below the WebGL buffer
+  let pixelScale = glCanvas.width / view.width;
+  const videoRect = video ? getRelativeRect(video, container) : null;
+  if (video && videoRect && video.videoWidth > 0 && videoRect.width > 0) {
+    pixelScale = Math.max(pixelScale, video.videoWidth / videoRect.width);
+  }
+  if (options.maxWidth) {
+    pixelScale = Math.min(pixelScale, options.maxWidth / view.width);
+  }
+
+  const output = document.createElement('canvas');
+  output.width = Math.round(view.width * pixelScale);
+  output.height = Math.round(view.height * pixelScale);
+  const ctx = output.getContext('2d');
+  if (!ctx) {
+    throw new Error('2D canvas is not supported');
+  }
+
+  if (video && videoRect && video.readyState >= 2) {
+    drawMirrored(
+      ctx, video,
+      (videoRect.x - view.x) * pixelScale,
+      (videoRect.y - view.y) * pixelScale,
+      videoRect.width * pixelScale,
+      videoRect.height * pixelScale,
+      isMirrored(video)
+    );
+  }
+
+  // Render now so the drawing buffer holds the current frame
+  sceneEl.renderer?.render(sceneEl.object3D, sceneEl.camera);
+  drawMirrored(ctx, glCanvas, 0, 0, output.width, output.height, isMirrored(glCanvas));
+
+  drawOverlay(ctx, getOverlayLines(data, options), output.width, output.height);
+
+  const type = options.type ?? 'image/png';
+  const blob = await canvasToBlob(output, type, options.quality);
+  console.log(`📸 Snapshot captured: ${output.width}x${output.height} ${type}`);
+  return blob;
+}
+
+/**
+ * Trigger a browser download of a snapshot
+ */
+export function downloadSnapshot(blob: Blob, filename: string = `tryon-${Date.now()}.${blob.type === 'image/jpeg' ? 'jpg' : 'png'}`) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Share a snapshot with the Web Share API.
+ * @returns false when file sharing is unsupported (caller can fall back to download)
+ */
+export async function shareSnapshot(blob: Blob, title: string = 'My try-on'): Promise<boolean> {
+  const file = new File([blob], `tryon.${blob.type === 'image/jpeg' ? 'jpg' : 'png'}`, { type: blob.type });
+  if (!navigator.canShare?.({ files: [file] })) {
+    return false;
+  }
+  await navigator.share({ files: [file], title });
+  return true;
+}
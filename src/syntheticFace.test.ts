@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { runSyntheticFace } from './syntheticFace.ts';
+
+const AUTO_SCALE = { autoScale: true, duration: 10000 };
+
+function lastAdjustment(result: ReturnType<typeof runSyntheticFace>) {
+  expect(result.adjustments.length).toBeGreaterThan(0);
+  return result.adjustments[result.adjustments.length - 1].settings;
+}
+
+describe('runSyntheticFace', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('measures the generated spans in millimetres', () => {
+    const { average } = runSyntheticFace({ faceWidthMm: 150, pdMm: 66, noseWidthMm: 33, faceHeightMm: 190 });
+    expect(average?.metric?.faceWidthMm).toBeCloseTo(150, 6);
+    expect(average?.metric?.eyeDistanceMm).toBeCloseTo(66, 6);
+    expect(average?.metric?.noseWidthMm).toBeCloseTo(33, 6);
+    expect(average?.metric?.faceHeightMm).toBeCloseTo(190, 6);
+  });
+
+  it('measures PD from the eye corners when the mesh has no iris', () => {
+    const { average } = runSyntheticFace({ iris: false, pdMm: 58 });
+    expect(average?.metric).toBeUndefined();
+    expect(average?.eyeDistance).toBeCloseTo(0.058, 9);
+    expect(average?.noseWidth).toBeCloseTo(0.031, 9);
+  });
+
+  it('keeps the base scale for the reference face', () => {
+    expect(lastAdjustment(runSyntheticFace({}, AUTO_SCALE)).scale).toBeCloseTo(1, 9);
+    expect(lastAdjustment(runSyntheticFace({}, { ...AUTO_SCALE, baseScale: 1.2 })).scale).toBeCloseTo(1.2, 9);
+  });
+
+  it('weights face width 70% and PD 30%', () => {
+    const settings = lastAdjustment(runSyntheticFace({ faceWidthMm: 154, pdMm: 63 }, AUTO_SCALE));
+    expect(settings.scale).toBeCloseTo(1 + 0.1 * 0.7, 9);
+  });
+
+  it('returns the base scale when auto-scale is off', () => {
+    const settings = lastAdjustment(runSyntheticFace({ faceWidthMm: 160 }, { baseScale: 1.1 }));
+    expect(settings.scale).toBe(1.1);
+  });
+
+  it('clamps the scale to 0.5–3.0', () => {
+    expect(lastAdjustment(runSyntheticFace({}, { ...AUTO_SCALE, baseScale: 0.4 })).scale).toBe(0.5);
+    expect(lastAdjustment(runSyntheticFace({ faceWidthMm: 180, pdMm: 75 }, { ...AUTO_SCALE, baseScale: 2.5 })).scale).toBe(3);
+  });
+
+  it('positions the reference face at the default depth', () => {
+    const settings = lastAdjustment(runSyntheticFace());
+    expect(settings.posX).toBe(0);
+    expect(settings.posY).toBeCloseTo(0, 9);
+    expect(settings.posZ).toBeCloseTo(-0.05, 9);
+  });
+
+  it('moves the glasses with face height and nose width', () => {
+    const settings = lastAdjustment(runSyntheticFace({ faceHeightMm: 182 * 1.5, noseWidthMm: 31 * 1.5 }));
+    expect(settings.posY).toBeCloseTo(0.5 * 0.02, 9);
+    expect(settings.posZ).toBeCloseTo(-0.05 + 0.5 * 0.01, 9);
+  });
+
+  it('clamps the position adjustments', () => {
+    const high = lastAdjustment(runSyntheticFace({ faceHeightMm: 182 * 8, noseWidthMm: 31 * 12 }));
+    expect(high.posY).toBe(0.1);
+    expect(high.posZ).toBe(0.05);
+  });
+
+  it('emits no adjustment when confidence is below 0.5', () => {
+    const result = runSyntheticFace({ landmarkDropoutRate: 0.95 }, { ...AUTO_SCALE, duration: 20000 });
+    expect(result.measurements.length).toBeGreaterThan(0);
+    expect(result.average?.confidence).toBeLessThan(0.5);
+    expect(result.adjustments).toHaveLength(0);
+  });
+
+  it('counts face-lost events and stays deterministic with noise and dropouts', () => {
+    const params = { jitterMm: 0.5, poseJitterDeg: 2, dropoutRate: 0.2, seed: 7 };
+    const first = runSyntheticFace(params, AUTO_SCALE);
+    const second = runSyntheticFace(params, AUTO_SCALE);
+    expect(first.faceLost).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+    expect(lastAdjustment(first).scale).toBeCloseTo(1, 1);
+  });
+});
@@ -0,0 +1,295 @@
+// src/syntheticFace.ts - Parametric face that stands in for MindAR tracking (no camera)
+
+import { Euler, MathUtils, Matrix4, Quaternion, Vector3 } from 'three';
+import { FaceMeasurementSystem, type FaceMeasurements, type LandmarkPoint } from './faceMeasurement.ts';
+import { AutoAdjuster, type AdjustmentSettings } from './autoAdjuster.ts';
+import type { LandmarkSource, LandmarkSpace } from './landmarkSource.ts';
+import type { MeasurementFilterOptions } from './filters.ts';
+import { VirtualClock } from './clock.ts';
+import { ReplayAnchor } from './sessionReplay.ts';
+import { IRIS_DIAMETER_MM } from './calibration.ts';
+import type { HeadPose } from './headPose.ts';
+
+export interface SyntheticFaceParams {
+  faceWidthMm: number;          // Temples 234–454
+  pdMm: number;                 // Iris centres 468–473, and the midpoints of each eye's corners
+  noseWidthMm: number;          // Inner eye corners 133–362, measured as nose (bridge) width
+  faceHeightMm: number;         // Forehead 10 to chin 152
+  pose: HeadPose;               // Degrees
+  position: { x: number; y: number; z: number };  // Anchor position in MindAR centimetres
+  jitterMm: number;             // Standard deviation of per-landmark noise
+  poseJitterDeg: number;        // Standard deviation of per-frame pose noise
+  dropoutRate: number;          // Probability that a tracking frame has no face (0–1)
+  landmarkDropoutRate: number;  // Probability that each optional measured landmark is missing (lowers confidence)
+  iris: boolean;                // Include iris landmarks 468–477 (enables iris calibration)
+  space: LandmarkSpace;         // 'face' like MindAR, 'camera' like MediaPipe (rotated by the pose)
+  unitScale: number;            // Landmark units per mm (default: metres, as MindARLandmarkSource)
+  seed: number;
+}
+
+/**
+ * Average adult face, matching AutoAdjuster's reference measurements
+ */
+export const DEFAULT_SYNTHETIC_FACE: SyntheticFaceParams = {
+  faceWidthMm: 140,
+  pdMm: 63,
+  noseWidthMm: 31,
+  faceHeightMm: 182,
+  pose: { yaw: 0, pitch: 0, roll: 0 },
+  position: { x: 0, y: 0, z: -50 },
+  jitterMm: 0,
+  poseJitterDeg: 0,
+  dropoutRate: 0,
+  landmarkDropoutRate: 0,
+  iris: true,
+  space: 'face',
+  unitScale: 0.001,
+  seed: 1
+};
+
+const MESH_SIZE = 468;
+const IRIS_MESH_SIZE = 478;
+
+// Proportions of the face (× width W or height H), eye line at y = 0
+const FOREHEAD_FRACTION = 0.4;          // Part of H above the eye line
+const EYE_DROP_MM = 3;                  // Eye line below the nose bridge
+const TEMPLE_DEPTH = 0.45;              // × W behind the bridge
+const SHAPE_POINTS: [number, number, number, number, number][] = [
+  // [left, right, width × W, height × H, depth × W]
+  [54, 284, 0.84, 0.3, 0.25],           // Forehead
+  [116, 345, 0.94, -0.15, 0.2],         // Cheekbones
+  [172, 397, 0.78, -0.45, 0.35]         // Jaw angles
+];
+
+// Landmarks measureFace() reads but can do without; the others only fill out
+// the mesh. Without the temples (234, 454) or the bridge (168) there is no
+// sample at all, which dropoutRate already covers.
+const OPTIONAL_LANDMARKS = [10, 152, 33, 133, 263, 362, 468, 473];
+
+/**
+ * Seeded PRNG (mulberry32) so every run with the same seed is identical
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates landmarks and anchor transforms from face parameters.
+ * Pass `anchor` wherever the `#glasses-anchor` entity goes and the face as
+ * the landmark source, then call update() once per tracking frame.
+ */
+export class SyntheticFace implements LandmarkSource {
+  readonly name = 'synthetic';
+  readonly space: LandmarkSpace;
+  readonly anchor = new ReplayAnchor();
+  private params: SyntheticFaceParams;
+  private random: () => number;
+  private base: LandmarkPoint[];
+  private current: LandmarkPoint[] | null = null;
+  private tracking: boolean = false;
+
+  constructor(params: Partial<SyntheticFaceParams> = {}) {
+    this.params = { ...DEFAULT_SYNTHETIC_FACE, ...params };
+    this.space = this.params.space;
+    this.random = createRandom(this.params.seed);
+    this.base = this.buildMesh();
+  }
+
+  getParams(): SyntheticFaceParams {
+    return { ...this.params };
+  }
+
+  /**
+   * Change the face or pose; the random sequence continues
+   */
+  setParams(params: Partial<Omit<SyntheticFaceParams, 'space' | 'seed'>>) {
+    this.params = { ...this.params, ...params };
+    this.base = this.buildMesh();
+  }
+
+  getLandmarks(): LandmarkPoint[] | null {
+    return this.current;
+  }
+
+  /**
+   * Produce the next tracking frame: anchor transform, visibility and landmarks
+   */
+  update() {
+    const p = this.params;
+    const found = this.random() >= p.dropoutRate;
+    if (found !== this.tracking) {
+      this.tracking = found;
+      this.anchor.dispatch(found ? 'targetFound' : 'targetLost');
+    }
+    if (!found) {
+      this.current = null;
+      this.anchor.object3D.visible = false;
+      return;
+    }
+
+    const rotation = new Quaternion().setFromEuler(new Euler(
+      MathUtils.degToRad(p.pose.pitch + this.gaussian() * p.poseJitterDeg),
+      MathUtils.degToRad(p.pose.yaw + this.gaussian() * p.poseJitterDeg),
+      MathUtils.degToRad(p.pose.roll + this.gaussian() * p.poseJitterDeg),
+      'YXZ'
+    ));
+    // MindAR scales anchor space by its face scale (centimetres), so one anchor unit ≈ the face width
+    const faceScale = p.faceWidthMm / 10;
+    const matrix = new Matrix4().compose(
+      new Vector3(p.position.x, p.position.y, p.position.z),
+      rotation,
+      new Vector3(faceScale, faceScale, faceScale)
+    );
+    this.anchor.setMatrix(matrix.elements, true);
+
+    const v = new Vector3();
+    const noise = p.jitterMm * p.unitScale;
+    this.current = this.base.map((point, i) => {
+      if (p.landmarkDropoutRate > 0 && OPTIONAL_LANDMARKS.includes(i) && this.random() < p.landmarkDropoutRate) {
+        return { x: NaN, y: NaN, z: NaN };
+      }
+      v.set(
+        point.x + this.gaussian() * noise,
+        point.y + this.gaussian() * noise,
+        point.z + this.gaussian() * noise
+      );
+      if (this.space === 'camera') {
+        v.applyQuaternion(rotation);
+      }
+      return { x: v.x, y: v.y, z: v.z };
+    });
+  }
+
+  /**
+   * Standard normal sample (Box–Muller)
+   */
+  private gaussian(): number {
+    const u = 1 - this.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * this.random());
+  }
+
+  /**
+   * Face-local mesh in landmark units: x right, y up, z out of the face,
+   * nose bridge (168) at the origin
+   */
+  private buildMesh(): LandmarkPoint[] {
+    const p = this.params;
+    const s = p.unitScale;
+    const W = p.faceWidthMm;
+    const H = p.faceHeightMm;
+    const eyeY = -EYE_DROP_MM;
+    const mesh: LandmarkPoint[] = [];
+    const set = (index: number, x: number, y: number, z: number) => {
+      mesh[index] = { x: x * s, y: y * s, z: z * s };
+    };
+
+    // Filler points on the front of an ellipsoid, so the mesh has its full size
+    const count = p.iris ? IRIS_MESH_SIZE : MESH_SIZE;
+    const golden = Math.PI * (3 - Math.sqrt(5));
+    for (let i = 0; i < count; i++) {
+      const y = 1 - (i + 0.5) / count * 2;
+      const r = Math.sqrt(1 - y * y);
+      const angle = i * golden;
+      set(i, Math.cos(angle) * r * W / 2, (FOREHEAD_FRACTION - 0.5) * H + y * H / 2, (Math.abs(Math.sin(angle)) * r - 1) * W / 2);
+    }
+
+    set(168, 0, 0, 0);
+    set(10, 0, eyeY + FOREHEAD_FRACTION * H, -10);
+    set(152, 0, eyeY - (1 - FOREHEAD_FRACTION) * H, -10);
+    set(234, -W / 2, eyeY, -TEMPLE_DEPTH * W);
+    set(454, W / 2, eyeY, -TEMPLE_DEPTH * W);
+    // Inner corners span the nose width; outer corners mirror them about the pupil
+    set(133, -p.noseWidthMm / 2, eyeY, -8);
+    set(362, p.noseWidthMm / 2, eyeY, -8);
+    set(33, -(p.pdMm - p.noseWidthMm / 2), eyeY, -14);
+    set(263, p.pdMm - p.noseWidthMm / 2, eyeY, -14);
+    SHAPE_POINTS.forEach(([left, right, width, height, depth]) => {
+      set(left, -width * W / 2, eyeY + height * H, -depth * W);
+      set(right, width * W / 2, eyeY + height * H, -depth * W);
+    });
+
+    if (p.iris) {
+      // Centre, then the ring: horizontal pair first and third (see calibration.ts)
+      [[468, -1], [473, 1]].forEach(([centre, side]) => {
+        const x = side * p.pdMm / 2;
+        const r = IRIS_DIAMETER_MM / 2;
+        set(centre, x, eyeY, -10);
+        set(centre + 1, x + r, eyeY, -10);
+        set(centre + 2, x, eyeY + r, -10);
+        set(centre + 3, x - r, eyeY, -10);
+        set(centre + 4, x, eyeY - r, -10);
+      });
+    }
+    return mesh;
+  }
+}
+
+export interface SyntheticRunOptions {
+  duration?: number;            // ms (default 10 s)
+  trackingFps?: number;         // Tracking frames per second (default 30)
+  autoAdjust?: boolean;         // Run AutoAdjuster (default: true)
+  autoScale?: boolean;          // AutoAdjuster.setAutoScaleEnabled (default: false)
+  autoRotate?: boolean;         // AutoAdjuster.setAutoRotationEnabled (default: false)
+  baseScale?: number;           // AutoAdjuster.setBaseScale (default: 1)
+  filterOptions?: Partial<MeasurementFilterOptions>;
+}
+
+export interface SyntheticRunResult {
+  measurements: FaceMeasurements[];
+  adjustments: { t: number; settings: AdjustmentSettings }[];
+  average: FaceMeasurements | null;
+  faceLost: number;             // targetLost events
+}
+
+const MEASURE_INTERVAL = 1000;  // As TryOnController
+
+/**
+ * Drive fresh FaceMeasurementSystem and AutoAdjuster instances with a
+ * synthetic face on a virtual clock. The same parameters and seed always
+ * give the same result.
+ */
+export function runSyntheticFace(params: Partial<SyntheticFaceParams> = {}, options: SyntheticRunOptions = {}): SyntheticRunResult {
+  const face = new SyntheticFace(params);
+  const clock = new VirtualClock(0);
+  const result: SyntheticRunResult = { measurements: [], adjustments: [], average: null, faceLost: 0 };
+
+  const measurementSystem = new FaceMeasurementSystem(clock);
+  measurementSystem.initialize(face.anchor);
+  measurementSystem.setLandmarkSource(face);
+  if (options.filterOptions) {
+    measurementSystem.setFilterOptions(options.filterOptions);
+  }
+  face.anchor.addEventListener('targetLost', () => result.faceLost++);
+
+  const autoAdjuster = new AutoAdjuster(measurementSystem, clock);
+  autoAdjuster.setAutoScaleEnabled(options.autoScale ?? false);
+  autoAdjuster.setAutoRotationEnabled(options.autoRotate ?? false);
+  autoAdjuster.setBaseScale(options.baseScale ?? 1);
+  if (options.autoAdjust ?? true) {
+    autoAdjuster.enable((settings) => {
+      result.adjustments.push({ t: clock.now(), settings });
+    });
+  }
+
+  clock.setInterval(() => face.update(), 1000 / (options.trackingFps ?? 30));
+  clock.setInterval(() => {
+    if (!face.anchor.object3D.visible) return;
+    const measurement = measurementSystem.measureFace();
+    if (measurement) {
+      result.measurements.push(measurement);
+    }
+  }, MEASURE_INTERVAL);
+
+  clock.advance(options.duration ?? 10000);
+  autoAdjuster.dispose();
+  result.average = measurementSystem.getAverageMeasurements();
+  console.log(`🧪 Synthetic run finished: ${result.measurements.length} measurements, ${result.adjustments.length} adjustments`);
+  return result;
+}
@@ -0,0 +1,291 @@
+// src/templeRig.ts - Bend the temples of rigged frames with their skeleton bones
+
+import { MathUtils, Matrix4, Quaternion, Vector3 } from 'three';
+import { compilePattern } from './materialMapping.ts';
+import type { FaceMeasurements } from './faceMeasurement.ts';
+import type { FrameCatalogEntry } from './catalog.ts';
+
+/**
+ * Temple bones rotate at the hinge (splay); tip bones bend down behind the ear.
+ * Left and right are the wearer's.
+ */
+export type TempleBone = 'leftTemple' | 'rightTemple' | 'leftTip' | 'rightTip';
+
+export const TEMPLE_BONES: TempleBone[] = ['leftTemple', 'rightTemple', 'leftTip', 'rightTip'];
+
+/**
+ * Bone name pattern per temple bone (exact, glob or `/regex/flags`).
+ * GLTFLoader strips dots from names, so Blender's `Temple.L` arrives as `TempleL`.
+ */
+export interface TempleRigConfig {
+  bones: Record<TempleBone, string>;
+}
+
+export const DEFAULT_TEMPLE_RIG: TempleRigConfig = {
+  bones: {
+    leftTemple: '/^(temple|arm|stem)[_-]?(l|left)$/i',
+    rightTemple: '/^(temple|arm|stem)[_-]?(r|right)$/i',
+    leftTip: '/^(temple|arm|stem)[_-]?(tip|end|ear)[_-]?(l|left)$/i',
+    rightTip: '/^(temple|arm|stem)[_-]?(tip|end|ear)[_-]?(r|right)$/i'
+  }
+};
+
+/**
+ * Temple pose derived from face measurements
+ */
+export interface TempleFit {
+  splay: number;                // Outward rotation at the hinges (degrees)
+  length: number;               // Arm length factor (1 = as modelled)
+  bend: number;                 // Downward bend at the tips (degrees)
+}
+
+/**
+ * Manual override for one bone.
+ * angle: splay (temples) or bend (tips) in degrees; length: arm length factor (temples)
+ */
+export interface BoneOverride {
+  angle?: number;
+  length?: number;
+}
+
+export interface BonePose {
+  angle: number;
+  length: number;
+  overridden: boolean;
+}
+
+export const NEUTRAL_TEMPLE_FIT: TempleFit = { splay: 0, length: 1, bend: 0 };
+
+// Average head (matches AutoAdjuster's reference face)
+const REFERENCE_FACE_WIDTH = 0.14;      // MindAR units
+const REFERENCE_FACE_WIDTH_MM = 140;
+
+const TEMPLE_CLEARANCE_MM = 3;          // Gap between the arm and the side of the head
+const HINGE_TO_EAR_RATIO = 0.71;        // Hinge-to-ear distance / face width (~100 mm on an average head)
+const STRAIGHT_TEMPLE_RATIO = 0.75;     // Part of the temple in front of the ear bend
+const BASE_BEND_DEG = 20;               // Tip bend when the arm ends exactly at the ear
+const BEND_PER_MM = 0.5;                // Extra bend per mm of arm left behind the ear
+
+const SPLAY_RANGE: [number, number] = [-5, 20];
+const LENGTH_RANGE: [number, number] = [0.9, 1.15];
+const BEND_RANGE: [number, number] = [5, 40];
+
+function clamp(value: number, [min, max]: [number, number]): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Validate a rig config from the catalog; missing bones use the default patterns
+ */
+export function parseTempleRig(raw: any, where: string): TempleRigConfig {
+  if (raw === undefined) {
+    return DEFAULT_TEMPLE_RIG;
+  }
+  if (!raw || typeof raw.bones !== 'object') {
+    throw new Error(`Invalid ${where}: rig needs a bones object`);
+  }
+
+  const bones = { ...DEFAULT_TEMPLE_RIG.bones };
+  Object.entries(raw.bones).forEach(([bone, pattern]) => {
+    if (!TEMPLE_BONES.includes(bone as TempleBone)) {
+      throw new Error(`Invalid ${where}: unknown rig bone "${bone}"`);
+    }
+    if (typeof pattern !== 'string') {
+      throw new Error(`Invalid ${where}: rig bone "${bone}" needs a name pattern`);
+    }
+    try {
+      compilePattern(pattern);
+    } catch {
+      throw new Error(`Invalid ${where}: rig bone "${bone}" has a bad pattern "${pattern}"`);
+    }
+    bones[bone as TempleBone] = pattern;
+  });
+  return { bones };
+}
+
+/**
+ * Splay the arms to the head's temple-to-temple width and set length and bend
+ * so they reach the ears, for a frame of the given real size
+ */
+export function computeTempleFit(measurements: FaceMeasurements, frame: FrameCatalogEntry): TempleFit {
+  const faceWidthMm = measurements.metric
+    ? measurements.metric.faceWidthMm
+    : measurements.faceWidth / REFERENCE_FACE_WIDTH * REFERENCE_FACE_WIDTH_MM;
+
+  // Hinges sit at the outer edges of the front; the arms must clear the head at the ears
+  const reachMm = faceWidthMm * HINGE_TO_EAR_RATIO;
+  const outwardMm = faceWidthMm / 2 + TEMPLE_CLEARANCE_MM - frame.frameWidthMm / 2;
+  const splay = clamp(MathUtils.radToDeg(Math.atan2(outwardMm, reachMm)), SPLAY_RANGE);
+
+  // Stretch the straight part towards the ear; whatever is left over wraps down behind it
+  const straightMm = frame.templeLengthMm * STRAIGHT_TEMPLE_RATIO;
+  const length = clamp(reachMm / straightMm, LENGTH_RANGE);
+  const excessMm = straightMm * length - reachMm;
+  const bend = clamp(BASE_BEND_DEG + excessMm * BEND_PER_MM, BEND_RANGE);
+
+  return { splay, length, bend };
+}
+
+interface BoundBone {
+  bone: any;
+  restQuaternion: Quaternion;
+  restPosition: Vector3;
+  restScale: Vector3;
+  axis: Vector3;                // Rotation axis in the parent's space
+}
+
+/**
+ * Drives the temple bones of one loaded model relative to their rest pose
+ */
+export class TempleRig {
+  private bones = new Map<TempleBone, BoundBone>();
+  private fit: TempleFit = { ...NEUTRAL_TEMPLE_FIT };
+  private overrides = new Map<TempleBone, BoneOverride>();
+
+  private constructor() {}
+
+  /**
+   * Find the temple bones of a model
+   * @returns null when the model has no temple bones
+   */
+  static bind(mesh: any, config: TempleRigConfig = DEFAULT_TEMPLE_RIG): TempleRig | null {
+    const found = new Map<TempleBone, any>();
+    const patterns = TEMPLE_BONES.map(bone => [bone, compilePattern(config.bones[bone])] as const);
+    mesh.traverse((child: any) => {
+      if (!child.isBone) return;
+      const match = patterns.find(([bone, pattern]) => !found.has(bone) && pattern.test(child.name));
+      if (match) found.set(match[0], child);
+    });
+    if (!found.has('leftTemple') && !found.has('rightTemple')) {
+      return null;
+    }
+
+    const rig = new TempleRig();
+    rig.capture(mesh, found);
+    console.log('🦴 Temple rig bound:', [...found.entries()].map(([bone, b]) => `${bone}=${b.name}`).join(', '));
+    return rig;
+  }
+
+  /**
+   * Record rest poses and the splay/bend axes, in model space (glTF Y up)
+   */
+  private capture(mesh: any, found: Map<TempleBone, any>) {
+    mesh.updateMatrixWorld(true);
+    const toModel = new Matrix4().copy(mesh.matrixWorld).invert();
+    const modelQuaternion = (object: any) => new Quaternion()
+      .setFromRotationMatrix(new Matrix4().multiplyMatrices(toModel, object.matrixWorld));
+    const modelPosition = (object: any) => new Vector3().setFromMatrixPosition(object.matrixWorld).applyMatrix4(toModel);
+    const boneDirection = (object: any) => new Vector3(0, 1, 0).applyQuaternion(modelQuaternion(object)); // Bones point along +Y
+
+    const up = new Vector3(0, 1, 0);
+    const left = found.get('leftTemple');
+    const right = found.get('rightTemple');
+    const centre = left && right
+      ? modelPosition(left).add(modelPosition(right)).multiplyScalar(0.5)
+      : new Vector3();
+
+    const bind = (name: TempleBone, bone: any, modelAxis: Vector3) => {
+      const parentQuaternion = bone.parent ? modelQuaternion(bone.parent) : new Quaternion();
+      this.bones.set(name, {
+        bone,
+        restQuaternion: bone.quaternion.clone(),
+        restPosition: bone.position.clone(),
+        restScale: bone.scale.clone(),
+        axis: modelAxis.normalize().applyQuaternion(parentQuaternion.invert())
+      });
+    };
+
+    (['left', 'right'] as const).forEach((side) => {
+      const temple = found.get(`${side}Temple`);
+      const tip = found.get(`${side}Tip`);
+      const direction = temple && tip
+        ? modelPosition(tip).sub(modelPosition(temple))
+        : boneDirection(temple ?? tip);
+
+      if (temple) {
+        // Rotate about the vertical axis, turning the arm away from the centre
+        const outward = modelPosition(temple).sub(centre).projectOnPlane(up);
+        const sign = Math.sign(direction.clone().cross(outward).dot(up)) || 1;
+        bind(`${side}Temple`, temple, up.clone().multiplyScalar(sign));
+      }
+      if (tip) {
+        // Rotate about the arm's sideways axis, turning the tip downwards
+        bind(`${side}Tip`, tip, boneDirection(tip).cross(up.clone().negate()));
+      }
+    });
+  }
+
+  getBones(): TempleBone[] {
+    return TEMPLE_BONES.filter(bone => this.bones.has(bone));
+  }
+
+  getFit(): TempleFit {
+    return { ...this.fit };
+  }
+
+  setFit(fit: TempleFit) {
+    this.fit = { ...fit };
+    this.apply();
+  }
+
+  /**
+   * Pin a bone's angle and/or length; null returns it to the measured fit
+   */
+  setOverride(bone: TempleBone, override: BoneOverride | null) {
+    if (override) {
+      this.overrides.set(bone, { ...this.overrides.get(bone), ...override });
+    } else {
+      this.overrides.delete(bone);
+    }
+    this.apply();
+  }
+
+  /**
+   * Effective pose of each bound bone, after overrides
+   */
+  getPoses(): Partial<Record<TempleBone, BonePose>> {
+    const poses: Partial<Record<TempleBone, BonePose>> = {};
+    this.getBones().forEach((bone) => {
+      const override = this.overrides.get(bone);
+      const isTemple = bone === 'leftTemple' || bone === 'rightTemple';
+      poses[bone] = {
+        angle: override?.angle ?? (isTemple ? this.fit.splay : this.fit.bend),
+        length: isTemple ? override?.length ?? this.fit.length : 1,
+        overridden: !!override
+      };
+    });
+    return poses;
+  }
+
+  private apply() {
+    const poses = this.getPoses();
+    this.bones.forEach((bound, name) => {
+      const pose = poses[name]!;
+      bound.bone.quaternion.setFromAxisAngle(bound.axis, MathUtils.degToRad(pose.angle)).multiply(bound.restQuaternion);
+    });
+
+    // Lengthen the arm by moving the tip out along it, or stretch the temple bone without a tip
+    (['left', 'right'] as const).forEach((side) => {
+      const temple = this.bones.get(`${side}Temple`);
+      if (!temple) return;
+      const length = poses[`${side}Temple`]!.length;
+      const tip = this.bones.get(`${side}Tip`);
+      if (tip && tip.bone.parent === temple.bone) {
+        tip.bone.position.copy(tip.restPosition).multiplyScalar(length);
+      } else {
+        temple.bone.scale.copy(temple.restScale).setY(temple.restScale.y * length);
+      }
+    });
+  }
+
+  /**
+   * Return every bone to its rest pose
+   */
+  reset() {
+    this.bones.forEach((bound) => {
+      bound.bone.quaternion.copy(bound.restQuaternion);
+      bound.bone.position.copy(bound.restPosition);
+      bound.bone.scale.copy(bound.restScale);
+    });
+  }
+}
@@ -0,0 +1,175 @@
+// src/tryOnBridge.ts - Answers postMessage requests from an allowlisted host page
+
+import type { TryOnController } from './tryOnController.ts';
+import type { Unsubscribe } from './eventEmitter.ts';
+import {
+  BRIDGE_PROTOCOL,
+  BRIDGE_VERSION,
+  isBridgeMessage,
+  type BridgeEventName,
+  type BridgeEvents,
+  type BridgeMethod,
+  type BridgeMethods,
+  type BridgeRequest,
+  type BridgeResponse
+} from './bridgeProtocol.ts';
+
+export interface TryOnBridgeOptions {
+  allowedOrigins: string[];     // Exact origins allowed to drive the try-on
+  target?: Window;              // Window announced to on start (default: window.parent)
+}
+
+type Handlers = {
+  [M in BridgeMethod]: (params: BridgeMethods[M]['params'], source: MessageEventSource, origin: string) =>
+    BridgeMethods[M]['result'] | Promise<BridgeMethods[M]['result']>;
+};
+
+interface Subscriber {
+  source: MessageEventSource;
+  origin: string;
+  events: Set<BridgeEventName>;
+}
+
+const FORWARDED_EVENTS: Exclude<BridgeEventName, 'ready'>[] = [
+  'faceFound', 'faceLost', 'measurement', 'adjustment', 'modelLoaded', 'settingsChanged'
+];
+
+/**
+ * Exposes a TryOnController to a host page embedding the try-on in an iframe
+ */
+export class TryOnBridge {
+  private controller: TryOnController;
+  private options: TryOnBridgeOptions;
+  private allowedOrigins: Set<string>;
+  private subscribers: Subscriber[] = [];
+  private controllerSubscriptions: Unsubscribe[] = [];
+  private handlers: Handlers;
+  private onMessage = (event: MessageEvent) => this.handleMessage(event);
+
+  constructor(controller: TryOnController, options: TryOnBridgeOptions) {
+    this.controller = controller;
+    this.options = options;
+    this.allowedOrigins = new Set(options.allowedOrigins);
+    this.handlers = this.createHandlers();
+  }
+
+  /**
+   * Start listening and announce readiness to the allowed origins.
+   * Hosts that miss the announcement find the bridge with ping requests.
+   */
+  start() {
+    window.addEventListener('message', this.onMessage);
+
+    FORWARDED_EVENTS.forEach((event) => {
+      this.controllerSubscriptions.push(this.controller.on(event, (payload: any) => {
+        // The mesh is not cloneable; hosts only get the frame and report
+        this.broadcast(event, event === 'modelLoaded' ? { frame: payload.frame, report: payload.report } : payload);
+      }));
+    });
+
+    const target = this.options.target ?? window.parent;
+    if (target && target !== window) {
+      this.allowedOrigins.forEach((origin) => {
+        target.postMessage(this.envelope({ kind: 'event', event: 'ready', payload: { version: BRIDGE_VERSION } }), origin);
+      });
+    }
+    console.log('🌉 Try-on bridge listening for', [...this.allowedOrigins].join(', '));
+  }
+
+  stop() {
+    window.removeEventListener('message', this.onMessage);
+    this.controllerSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.controllerSubscriptions = [];
+    this.subscribers = [];
+  }
+
+  private createHandlers(): Handlers {
+    const tryOn = this.controller;
+    return {
+      ping: () => ({ version: BRIDGE_VERSION }),
+      selectFrame: ({ id }) => tryOn.switchFrame(id),
+      getCurrentFrame: () => tryOn.getCurrentFrame(),
+      applySettings: (settings) => {
+        tryOn.setSettings(settings, 'api');
+        return tryOn.getSettings();
+      },
+      getSettings: () => tryOn.getSettings(),
+      getMeasurements: () => tryOn.getFaceMeasurements(),
+      getRecommendedSettings: () => tryOn.getRecommendedSettings(),
+      getFaceShape: () => tryOn.getFaceShape(),
+      recommendFrames: () => tryOn.recommendFrames(),
+      enableAutoAdjust: () => tryOn.enableAutoAdjust(),
+      disableAutoAdjust: () => tryOn.disableAutoAdjust(),
+      setAutoScaleEnabled: ({ enabled }) => tryOn.setAutoScaleEnabled(enabled),
+      isAutoScaleEnabled: () => tryOn.isAutoScaleEnabled(),
+      setAutoRotationEnabled: ({ enabled }) => tryOn.setAutoRotationEnabled(enabled),
+      isAutoRotationEnabled: () => tryOn.isAutoRotationEnabled(),
+      snapshot: (options) => tryOn.captureSnapshot(options ?? {}),
+      subscribe: ({ events }, source, origin) => this.updateSubscription(source, origin, events, true),
+      unsubscribe: ({ events }, source, origin) => this.updateSubscription(source, origin, events, false)
+    };
+  }
+
+  private async handleMessage(event: MessageEvent) {
+    if (!this.allowedOrigins.has(event.origin) || !event.source) {
+      return;
+    }
+    const message = event.data;
+    if (!isBridgeMessage(message) || message.kind !== 'request') {
+      return;
+    }
+
+    const request = message as BridgeRequest;
+    const respond = (response: Pick<BridgeResponse, 'ok' | 'result' | 'error'>) => {
+      event.source!.postMessage(this.envelope({ kind: 'response', id: request.id, ...response }), { targetOrigin: event.origin });
+    };
+
+    if (request.version !== BRIDGE_VERSION) {
+      respond({ ok: false, error: `Unsupported protocol version ${request.version} (expected ${BRIDGE_VERSION})` });
+      return;
+    }
+    // Method names come from another site; never reach Object.prototype members
+    const handler = Object.hasOwn(this.handlers, request.method)
+      ? this.handlers[request.method] as Handlers[BridgeMethod]
+      : undefined;
+    if (typeof handler !== 'function') {
+      respond({ ok: false, error: `Unknown method "${request.method}"` });
+      return;
+    }
+
+    try {
+      const result = await handler(request.params as any, event.source, event.origin);
+      respond({ ok: true, result });
+    } catch (error) {
+      respond({ ok: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private updateSubscription(source: MessageEventSource, origin: string, events: BridgeEventName[], add: boolean): BridgeEventName[] {
+    let subscriber = this.subscribers.find(s => s.source === source && s.origin === origin);
+    if (!subscriber) {
+      subscriber = { source, origin, events: new Set() };
+      this.subscribers.push(subscriber);
+    }
+    (events ?? []).forEach((event) => {
+      if (add) {
+        subscriber!.events.add(event);
+      } else {
+        subscriber!.events.delete(event);
+      }
+    });
+    return [...subscriber.events];
+  }
+
+  private broadcast<E extends BridgeEventName>(event: E, payload: BridgeEvents[E]) {
+    this.subscribers
+      .filter(subscriber => subscriber.events.has(event))
+      .forEach((subscriber) => {
+        subscriber.source.postMessage(this.envelope({ kind: 'event', event, payload }), { targetOrigin: subscriber.origin });
+      });
+  }
+
+  private envelope<T extends object>(message: T) {
+    return { protocol: BRIDGE_PROTOCOL, version: BRIDGE_VERSION, ...message };
+  }
+}
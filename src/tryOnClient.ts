@@ -0,0 +1,196 @@
+// src/tryOnClient.ts - Host-page client for driving the try-on iframe over postMessage
+
+import type { Unsubscribe } from './eventEmitter.ts';
+import {
+  BRIDGE_PROTOCOL,
+  BRIDGE_VERSION,
+  createMessageId,
+  isBridgeMessage,
+  type BridgeEventMessage,
+  type BridgeEventName,
+  type BridgeEvents,
+  type BridgeMethod,
+  type BridgeMethods,
+  type BridgeResponse,
+  type SnapshotOptions
+} from './bridgeProtocol.ts';
+import type { GlassesSettings } from './settings.ts';
+
+export interface TryOnClientOptions {
+  timeout?: number;             // ms before a request is rejected (default: 10000)
+  pingInterval?: number;        // ms between pings until the bridge answers (default: 250)
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timeoutId: number;
+}
+
+/**
+ * Typed client for a try-on page embedded in an iframe.
+ * Only messages from `targetOrigin` are accepted.
+ */
+export class TryOnClient {
+  private target: Window;
+  private targetOrigin: string;
+  private timeout: number;
+  private pending = new Map<string, PendingRequest>();
+  private listeners = new Map<BridgeEventName, Set<(payload: any) => void>>();
+  private readyPromise: Promise<void>;
+  private resolveReady!: () => void;
+  private isReady: boolean = false;
+  private disposed: boolean = false;
+  private onMessage = (event: MessageEvent) => this.handleMessage(event);
+
+  constructor(target: HTMLIFrameElement | Window, targetOrigin: string, options: TryOnClientOptions = {}) {
+    this.target = target instanceof HTMLIFrameElement ? target.contentWindow! : target;
+    this.targetOrigin = targetOrigin;
+    this.timeout = options.timeout ?? 10000;
+    this.readyPromise = new Promise((resolve) => {
+      this.resolveReady = resolve;
+    });
+    window.addEventListener('message', this.onMessage);
+    this.ping(options.pingInterval ?? 250);
+  }
+
+  /**
+   * Resolves once the bridge announces itself or answers a ping, so a client
+   * created after the iframe loaded doesn't wait for a missed announcement
+   */
+  ready(): Promise<void> {
+    return this.readyPromise;
+  }
+
+  /**
+   * Call a bridge method and wait for its response
+   */
+  call<M extends BridgeMethod>(
+    method: M,
+    params: BridgeMethods[M]['params'],
+    timeout: number = this.timeout
+  ): Promise<BridgeMethods[M]['result']> {
+    const id = createMessageId();
+    return new Promise((resolve, reject) => {
+      const timeoutId = window.setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Try-on request "${method}" timed out`));
+      }, timeout);
+      this.pending.set(id, { resolve, reject, timeoutId });
+      this.target.postMessage(
+        { protocol: BRIDGE_PROTOCOL, version: BRIDGE_VERSION, kind: 'request', id, method, params },
+        this.targetOrigin
+      );
+    });
+  }
+
+  selectFrame(id: string) {
+    return this.call('selectFrame', { id });
+  }
+
+  applySettings(settings: Partial<GlassesSettings>) {
+    return this.call('applySettings', settings);
+  }
+
+  getMeasurements() {
+    return this.call('getMeasurements', undefined);
+  }
+
+  getRecommendedSettings() {
+    return this.call('getRecommendedSettings', undefined);
+  }
+
+  setAutoScaleEnabled(enabled: boolean) {
+    return this.call('setAutoScaleEnabled', { enabled });
+  }
+
+  isAutoScaleEnabled() {
+    return this.call('isAutoScaleEnabled', undefined);
+  }
+
+  snapshot(options: SnapshotOptions = {}) {
+    return this.call('snapshot', options);
+  }
+
+  /**
+   * Subscribe to a try-on event
+   * @returns Function that removes the listener
+   */
+  on<E extends BridgeEventName>(event: E, listener: (payload: BridgeEvents[E]) => void): Unsubscribe {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    const listeners = this.listeners.get(event)!;
+    if (listeners.size === 0 && event !== 'ready') {
+      this.call('subscribe', { events: [event] }).catch((error) => {
+        console.error(`❌ Failed to subscribe to "${event}":`, error);
+      });
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && event !== 'ready') {
+        this.call('unsubscribe', { events: [event] }).catch(() => {});
+      }
+    };
+  }
+
+  /**
+   * Stop listening and reject pending requests
+   */
+  dispose() {
+    this.disposed = true;
+    window.removeEventListener('message', this.onMessage);
+    this.pending.forEach(({ reject, timeoutId }) => {
+      window.clearTimeout(timeoutId);
+      reject(new Error('Try-on client disposed'));
+    });
+    this.pending.clear();
+    this.listeners.clear();
+  }
+
+  /**
+   * Ping until the bridge answers. Pings sent before the iframe's page has
+   * loaded are dropped by the browser and simply time out.
+   */
+  private ping(interval: number) {
+    if (this.isReady || this.disposed) return;
+    this.call('ping', undefined, interval).catch(() => this.ping(interval));
+  }
+
+  private markReady() {
+    this.isReady = true;
+    this.resolveReady();
+  }
+
+  private handleMessage(event: MessageEvent) {
+    if (event.origin !== this.targetOrigin || event.source !== this.target) {
+      return;
+    }
+    const message = event.data;
+    if (!isBridgeMessage(message)) {
+      return;
+    }
+
+    if (message.kind === 'response') {
+      const response = message as BridgeResponse;
+      this.markReady(); // Any answer means the bridge is listening
+      const pending = this.pending.get(response.id);
+      if (!pending) return;
+      this.pending.delete(response.id);
+      window.clearTimeout(pending.timeoutId);
+      if (response.ok) {
+        pending.resolve(response.result);
+      } else {
+        pending.reject(new Error(response.error ?? 'Try-on request failed'));
+      }
+    } else if (message.kind === 'event') {
+      const { event: name, payload } = message as BridgeEventMessage;
+      if (name === 'ready') {
+        this.markReady();
+      }
+      this.listeners.get(name)?.forEach((listener) => listener(payload));
+    }
+  }
+}
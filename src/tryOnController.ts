@@ -0,0 +1,1010 @@
+// src/tryOnController.ts - Public try-on API with typed events
+
+import { Vector3 } from 'three';
+import { FaceMeasurementSystem, type FaceMeasurements } from './faceMeasurement.ts';
+import { AutoAdjuster, type AdjustmentSettings, type RotationLimits } from './autoAdjuster.ts';
+import { MediaPipeLandmarkSource, MindARLandmarkSource, type MediaPipeLandmarkSourceOptions } from './landmarkSource.ts';
+import { DEFAULT_SETTINGS, mergeSettings, type GlassesSettings } from './settings.ts';
+import { FrameCatalog, FrameSwitcher, type FrameCatalogEntry } from './catalog.ts';
+import { recommendFrames, type RecommendationResult } from './recommendation.ts';
+import { registerAnchorSmoothing } from './anchorSmoothing.ts';
+import type { MeasurementFilterOptions } from './filters.ts';
+import type { PoseGateOptions } from './headPose.ts';
+import { SessionRecorder, type TrackingSession } from './sessionRecorder.ts';
+import { SessionReplay, type ReplayOptions, type ReplayResult } from './sessionReplay.ts';
+import {
+  runSyntheticFace,
+  type SyntheticFaceParams,
+  type SyntheticRunOptions,
+  type SyntheticRunResult
+} from './syntheticFace.ts';
+import { PresetManager } from './presets.ts';
+import { TypedEventEmitter, type Unsubscribe } from './eventEmitter.ts';
+import { captureSnapshot, isMirrored, type SnapshotOptions } from './snapshot.ts';
+import { ComparisonGallery, blobToDataUrl, type ComparisonEntry } from './comparison.ts';
+import { DEFAULT_VARIANT, MaterialVariantApplier, type FrameVariant } from './materialVariants.ts';
+import {
+  DEFAULT_MATERIAL_MAPPING,
+  MaterialMapper,
+  logMaterialReport,
+  type MaterialMappingReport,
+  type MaterialRole
+} from './materialMapping.ts';
+import {
+  DEFAULT_TEMPLE_RIG,
+  NEUTRAL_TEMPLE_FIT,
+  TempleRig,
+  computeTempleFit,
+  type BoneOverride,
+  type BonePose,
+  type TempleBone,
+  type TempleFit
+} from './templeRig.ts';
+import { HeadOccluder, type HeadOccluderOptions } from './headOccluder.ts';
+import { SettingsHistory, type SettingsAxis, type SettingsSnapshot } from './settingsHistory.ts';
+import type { ScreenAxes } from './gestureControls.ts';
+import { SettingsTransition, applyDeadBands, type TransitionOptions } from './settingsTransition.ts';
+import { PerformanceMonitor, type PerformanceStats } from './performanceMonitor.ts';
+import { AdaptiveQuality, type AdaptiveQualityOptions, type QualityLevel } from './adaptiveQuality.ts';
+
+export type SettingsChangeSource = 'user' | 'auto' | 'preset' | 'restore' | 'frame' | 'comparison' | 'api' | 'history';
+
+// Sources that express the user's choice; the axes they set are locked against auto-adjustment.
+// A preset restored on load ('restore') is only a starting point, so it doesn't lock.
+const LOCKING_SOURCES: SettingsChangeSource[] = ['user', 'preset', 'comparison'];
+
+// Sources the glasses animate to; manual input and frame switches apply immediately
+const ANIMATED_SOURCES: SettingsChangeSource[] = ['auto', 'preset', 'comparison', 'history'];
+
+export interface TryOnEvents {
+  faceFound: { timestamp: number };
+  faceLost: { timestamp: number };
+  measurement: FaceMeasurements;
+  adjustment: AdjustmentSettings;
+  modelLoaded: { frame: FrameCatalogEntry | null; mesh: any; report: MaterialMappingReport };
+  settingsChanged: { settings: GlassesSettings; source: SettingsChangeSource };
+  presetsChanged: { count: number };
+  comparisonChanged: { entries: ComparisonEntry[] };
+  variantChanged: { frame: FrameCatalogEntry | null; variant: FrameVariant };
+  templeFitChanged: { fit: TempleFit; poses: Partial<Record<TempleBone, BonePose>> };
+  locksChanged: { locked: SettingsAxis[] };
+  historyChanged: { canUndo: boolean; canRedo: boolean };
+  qualityChanged: { level: QualityLevel };
+}
+
+const COMPARISON_THUMBNAIL_WIDTH = 480; // px
+
+const MEASURE_INTERVAL = 1000; // ms between face measurements while tracking
+
+const SCREEN_AXIS_PROBE = 0.01; // Anchor units
+
+/**
+ * Owns the measurement, auto-adjustment, catalog, preset and recording
+ * systems and exposes them as one API. Any number of listeners can
+ * subscribe to each event.
+ */
+export class TryOnController {
+  readonly faceMeasurement: FaceMeasurementSystem;
+  readonly autoAdjuster: AutoAdjuster;
+  readonly presets: PresetManager;
+  readonly comparison: ComparisonGallery;
+  private events = new TypedEventEmitter<TryOnEvents>();
+  private settings: GlassesSettings = { ...DEFAULT_SETTINGS };
+  private sceneEl: any = null;
+  private anchorEntity: any = null;
+  private glassesEntity: any = null;
+  private frameSwitcher: FrameSwitcher | null = null;
+  private sessionRecorder: SessionRecorder | null = null;
+  private measureIntervalId?: number;
+  private detach: Unsubscribe[] = [];
+  private variantApplier = new MaterialVariantApplier();
+  private selectedVariants = new Map<string | null, string>(); // Frame id -> variant id
+  private lensActivation: number = 0;
+  private manualActivation: number | null = null;
+  private lightCanvas: HTMLCanvasElement | null = null;
+  private materialRoles = new Map<any, MaterialRole>();
+  private materialReport: MaterialMappingReport | null = null;
+  private templeRig: TempleRig | null = null;
+  private templeRigFrame: FrameCatalogEntry | null = null; // Real dimensions of the rigged frame
+  private landmarkSource: MindARLandmarkSource | null = null;
+  private occluder = new HeadOccluder();
+  private lockedAxes = new Set<SettingsAxis>();
+  private history = new SettingsHistory();
+  private transition = new SettingsTransition(DEFAULT_SETTINGS);
+  private transitionFrame?: number;
+  private performanceMonitor = new PerformanceMonitor();
+  private adaptiveQuality = new AdaptiveQuality({}, level => this.events.emit('qualityChanged', { level }));
+  private templeFitEnabled: boolean = true;
+
+  constructor(presets: PresetManager = new PresetManager(), comparison: ComparisonGallery = new ComparisonGallery()) {
+    this.presets = presets;
+    this.comparison = comparison;
+    this.faceMeasurement = new FaceMeasurementSystem();
+    this.autoAdjuster = new AutoAdjuster(this.faceMeasurement);
+    this.autoAdjuster.setTimingCallback(ms => this.performanceMonitor.record('autoAdjust', ms));
+    this.faceMeasurement.onMeasurementUpdate((measurement) => {
+      this.events.emit('measurement', measurement);
+      this.updateTempleFit();
+    });
+  }
+
+  /**
+   * Subscribe to an event
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof TryOnEvents>(event: K, listener: (payload: TryOnEvents[K]) => void): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  once<K extends keyof TryOnEvents>(event: K, listener: (payload: TryOnEvents[K]) => void): Unsubscribe {
+    return this.events.once(event, listener);
+  }
+
+  /**
+   * Connect to the loaded A-Frame scene and start measuring
+   */
+  attach(sceneEl: any, anchorEntity: any, glassesEntity: any) {
+    this.sceneEl = sceneEl;
+    this.anchorEntity = anchorEntity;
+    this.glassesEntity = glassesEntity;
+
+    const onTargetFound = () => this.events.emit('faceFound', { timestamp: Date.now() });
+    const onTargetLost = () => {
+      this.performanceMonitor.recordFaceLost();
+      this.events.emit('faceLost', { timestamp: Date.now() });
+    };
+    anchorEntity.addEventListener('targetFound', onTargetFound);
+    anchorEntity.addEventListener('targetLost', onTargetLost);
+
+    const onModelLoaded = () => this.handleModelLoaded();
+    glassesEntity.addEventListener('model-loaded', onModelLoaded);
+
+    this.detach.push(() => {
+      anchorEntity.removeEventListener('targetFound', onTargetFound);
+      anchorEntity.removeEventListener('targetLost', onTargetLost);
+      glassesEntity.removeEventListener('model-loaded', onModelLoaded);
+    });
+
+    // Initialize face measurement system with anchor entity
+    this.faceMeasurement.initialize(anchorEntity);
+    this.landmarkSource = new MindARLandmarkSource(sceneEl);
+    this.faceMeasurement.setLandmarkSource(this.landmarkSource);
+    this.faceMeasurement.startTracking();
+
+    // Depth-only head so temples disappear behind it
+    anchorEntity.object3D.add(this.occluder.object3D);
+
+    // Smooth anchor jitter before rendering
+    registerAnchorSmoothing();
+    anchorEntity.setAttribute('smooth-anchor', '');
+
+    // Session recording for offline reproduction of fit problems
+    this.sessionRecorder = new SessionRecorder(anchorEntity, this.faceMeasurement, this.autoAdjuster);
+
+    // Frame and tracking rates for the performance HUD and adaptive quality
+    this.performanceMonitor.start(() => this.landmarkSource?.getUpdateCount() ?? 0);
+    this.adaptiveQuality.attach(sceneEl);
+
+    // Measure the face on an interval while it is detected
+    this.measureIntervalId = window.setInterval(() => {
+      if (anchorEntity.object3D && anchorEntity.object3D.visible) {
+        this.performanceMonitor.time('measureFace', () => this.faceMeasurement.measureFace());
+        this.updateOccluder();
+      }
+      this.updateLensActivation();
+      this.adaptiveQuality.update(this.performanceMonitor.getStats().fps);
+    }, MEASURE_INTERVAL);
+
+    console.log('✅ Face measurement system active');
+  }
+
+  // ===== Settings =====
+
+  getSettings(): GlassesSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Update glasses settings, apply them and notify listeners.
+   * User edits lock the axes they touch; auto-adjustments skip locked axes.
+   * Every change is recorded for undo.
+   */
+  setSettings(partial: Partial<GlassesSettings>, source: SettingsChangeSource = 'api') {
+    const before = this.getSnapshot();
+    const axes = (Object.keys(partial) as SettingsAxis[]).filter(axis => axis in this.settings);
+
+    if (source === 'auto') {
+      partial = applyDeadBands(this.settings, partial, this.transition.getOptions().deadBands);
+      this.lockedAxes.forEach(axis => delete partial[axis]);
+    } else if (source === 'frame') {
+      this.lockedAxes.clear(); // A new frame starts from its own defaults
+    } else if (LOCKING_SOURCES.includes(source)) {
+      axes.forEach(axis => this.lockedAxes.add(axis));
+    }
+
+    this.settings = mergeSettings(this.settings, partial);
+    this.applySettings(!ANIMATED_SOURCES.includes(source));
+    this.commitChange(before, source);
+    this.events.emit('settingsChanged', { settings: this.getSettings(), source });
+  }
+
+  private getSnapshot(): SettingsSnapshot {
+    return { settings: this.getSettings(), locked: this.getLockedAxes() };
+  }
+
+  /**
+   * Record a change for undo and announce lock changes
+   */
+  private commitChange(before: SettingsSnapshot, source: SettingsChangeSource) {
+    const after = this.getSnapshot();
+    const settingsChanged = (Object.keys(after.settings) as SettingsAxis[])
+      .some(axis => after.settings[axis] !== before.settings[axis]);
+    const locksChanged = after.locked.join() !== before.locked.join();
+
+    if (locksChanged) {
+      this.events.emit('locksChanged', { locked: after.locked });
+    }
+    if ((settingsChanged || locksChanged) && source !== 'history') {
+      this.history.record(before, source);
+      this.emitHistory();
+    }
+  }
+
+  private emitHistory() {
+    this.events.emit('historyChanged', { canUndo: this.history.canUndo(), canRedo: this.history.canRedo() });
+  }
+
+  // ===== Axis Locks =====
+
+  /**
+   * Axes the user has set by hand, in settings order
+   */
+  getLockedAxes(): SettingsAxis[] {
+    return (Object.keys(this.settings) as SettingsAxis[]).filter(axis => this.lockedAxes.has(axis));
+  }
+
+  isAxisLocked(axis: SettingsAxis): boolean {
+    return this.lockedAxes.has(axis);
+  }
+
+  /**
+   * Keep an axis at its current value until reset to auto
+   */
+  lockAxis(axis: SettingsAxis) {
+    this.updateLocks(() => this.lockedAxes.add(axis));
+  }
+
+  /**
+   * Hand one axis (or all of them) back to auto-adjustment and re-run it
+   */
+  resetToAuto(axis?: SettingsAxis) {
+    this.updateLocks(() => axis ? this.lockedAxes.delete(axis) : this.lockedAxes.clear());
+    this.autoAdjuster.forceUpdate();
+  }
+
+  private updateLocks(update: () => void) {
+    const before = this.getSnapshot();
+    update();
+    this.commitChange(before, 'user');
+  }
+
+  // ===== History =====
+
+  /**
+   * Undo the last manual edit or auto-adjustment
+   */
+  undo(): boolean {
+    return this.restoreSnapshot(this.history.undo(this.getSnapshot()));
+  }
+
+  redo(): boolean {
+    return this.restoreSnapshot(this.history.redo(this.getSnapshot()));
+  }
+
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  private restoreSnapshot(snapshot: SettingsSnapshot | null): boolean {
+    if (!snapshot) return false;
+    this.lockedAxes = new Set(snapshot.locked);
+    this.events.emit('locksChanged', { locked: this.getLockedAxes() });
+    this.setSettings(snapshot.settings, 'history');
+    this.emitHistory();
+    return true;
+  }
+
+  /**
+   * Move the entity to the settings, animating unless immediate
+   */
+  private applySettings(immediate: boolean = true) {
+    this.transition.setTarget(this.settings, immediate);
+    if (immediate) {
+      this.renderSettings(this.settings);
+    } else if (this.transitionFrame === undefined) {
+      let last = performance.now();
+      const tick = (now: number) => {
+        const running = this.transition.step(Math.max(0, now - last));
+        last = now;
+        this.renderSettings(this.transition.getCurrent());
+        this.transitionFrame = running ? requestAnimationFrame(tick) : undefined;
+      };
+      this.transitionFrame = requestAnimationFrame(tick);
+    }
+  }
+
+  private renderSettings(settings: GlassesSettings) {
+    if (!this.glassesEntity) return;
+
+    this.glassesEntity.setAttribute('position', {
+      x: settings.posX,
+      y: settings.posY,
+      z: settings.posZ
+    });
+
+    this.glassesEntity.setAttribute('scale', {
+      x: settings.scale,
+      y: settings.scale,
+      z: settings.scale
+    });
+
+    this.glassesEntity.setAttribute('rotation', {
+      x: settings.rotX,
+      y: settings.rotY,
+      z: settings.rotZ
+    });
+  }
+
+  // ===== Transitions =====
+
+  getTransitionOptions(): TransitionOptions {
+    return this.transition.getOptions();
+  }
+
+  /**
+   * Configure how the glasses move to automatic, preset and undo changes:
+   * spring or tween, duration, easing and per-axis dead-bands
+   */
+  setTransitionOptions(options: Partial<TransitionOptions>) {
+    this.transition.setOptions(options);
+    if (!this.transition.isAnimating()) {
+      this.renderSettings(this.settings);
+    }
+  }
+
+  /**
+   * Where one unit along the glasses' X and Y axes lands on screen, in CSS
+   * pixels of the scene, so gestures can follow the finger.
+   * Null while no face is tracked.
+   */
+  getScreenAxes(): ScreenAxes | null {
+    const camera = this.sceneEl?.camera;
+    const canvas: HTMLCanvasElement | undefined = this.sceneEl?.canvas;
+    const parent = this.glassesEntity?.object3D?.parent;
+    if (!camera || !canvas || !parent || !this.anchorEntity?.object3D?.visible) {
+      return null;
+    }
+
+    parent.updateMatrixWorld();
+    const flip = isMirrored(canvas) ? -1 : 1;
+    const { posX, posY, posZ } = this.transition.getCurrent();
+    const project = (x: number, y: number) => {
+      const ndc = new Vector3(x, y, posZ).applyMatrix4(parent.matrixWorld).project(camera);
+      return { x: flip * ndc.x * canvas.clientWidth / 2, y: -ndc.y * canvas.clientHeight / 2 };
+    };
+    // Probe a short step so perspective doesn't distort the result
+    const origin = project(posX, posY);
+    const alongX = project(posX + SCREEN_AXIS_PROBE, posY);
+    const alongY = project(posX, posY + SCREEN_AXIS_PROBE);
+    return {
+      x: { x: (alongX.x - origin.x) / SCREEN_AXIS_PROBE, y: (alongX.y - origin.y) / SCREEN_AXIS_PROBE },
+      y: { x: (alongY.x - origin.x) / SCREEN_AXIS_PROBE, y: (alongY.y - origin.y) / SCREEN_AXIS_PROBE }
+    };
+  }
+
+  // ===== Frames =====
+
+  /**
+   * Load the frame catalog for runtime model switching
+   * @param initialModel - Model path already loaded in the scene
+   */
+  async loadCatalog(url: string, initialModel?: string): Promise<FrameCatalog> {
+    const catalog = await FrameCatalog.load(url);
+    this.frameSwitcher = new FrameSwitcher(catalog, this.glassesEntity);
+
+    const initialFrame = initialModel ? catalog.findByModel(initialModel) : null;
+    if (initialFrame) {
+      this.frameSwitcher.setCurrent(initialFrame.id);
+    }
+    return catalog;
+  }
+
+  /**
+   * Switch to another frame from the catalog.
+   * The user's own preset for the frame is preferred over the catalog defaults.
+   * @returns The frame, or null if it failed to load (see switchFrame for the reason)
+   */
+  async selectFrame(id: string): Promise<FrameCatalogEntry | null> {
+    try {
+      return await this.switchFrame(id);
+    } catch (error) {
+      console.error('❌ Failed to select frame:', error);
+      return null;
+    }
+  }
+
+  /**
+   * selectFrame() that rejects with the reason instead of resolving null
+   */
+  async switchFrame(id: string): Promise<FrameCatalogEntry> {
+    if (!this.frameSwitcher) {
+      throw new Error('Frame catalog not loaded');
+    }
+
+    const previous = this.getCurrentFrame();
+    const frame = await this.frameSwitcher.selectFrame(id);
+    if (frame === previous) {
+      return frame; // Already loaded; keep the current settings
+    }
+    const preset = this.presets.getLatest(frame.id);
+    this.setSettings(preset?.settings ?? frame.defaultSettings, 'frame');
+    return frame;
+  }
+
+  getCurrentFrame(): FrameCatalogEntry | null {
+    return this.frameSwitcher?.getCurrentFrame() ?? null;
+  }
+
+  getCurrentFrameId(): string | null {
+    return this.getCurrentFrame()?.id ?? null;
+  }
+
+  /**
+   * Rank catalog frames against the current averaged face measurements
+   */
+  recommendFrames(): RecommendationResult | null {
+    const measurements = this.faceMeasurement.getAverageMeasurements();
+    if (!measurements || !this.frameSwitcher) {
+      console.warn('⚠️ Recommendations need face measurements and a loaded catalog');
+      return null;
+    }
+    return recommendFrames(measurements, this.frameSwitcher.getCatalog());
+  }
+
+  private handleModelLoaded() {
+    console.log('✅ GLTF model loaded');
+    const mesh = this.glassesEntity.getObject3D('mesh');
+    if (!mesh) return;
+
+    const frame = this.frameSwitcher?.getLoadingFrame() ?? this.getCurrentFrame();
+    const mapper = new MaterialMapper(frame?.materialMapping ?? DEFAULT_MATERIAL_MAPPING);
+    const { roles, report } = mapper.resolve(mesh, frame?.id ?? this.glassesEntity.getAttribute('gltf-model'));
+    this.materialRoles = roles;
+    this.materialReport = report;
+    logMaterialReport(report);
+
+    this.applyVariant(this.getVariantFor(frame));
+    this.bindTempleRig(mesh, frame);
+    this.autoAdjuster.setBaseRotation(frame?.defaultSettings ?? DEFAULT_SETTINGS);
+    this.applySettings();
+
+    this.events.emit('modelLoaded', { frame, mesh, report });
+  }
+
+  /**
+   * Material mapping report of the loaded model
+   */
+  getMaterialReport(): MaterialMappingReport | null {
+    return this.materialReport;
+  }
+
+  // ===== Variants =====
+
+  /**
+   * Colour/lens variants of the current frame
+   */
+  getVariants(): FrameVariant[] {
+    return this.getCurrentFrame()?.variants ?? [DEFAULT_VARIANT];
+  }
+
+  getCurrentVariant(): FrameVariant {
+    return this.getVariantFor(this.getCurrentFrame());
+  }
+
+  /**
+   * Switch the current frame's variant without reloading the model
+   */
+  setVariant(id: string): boolean {
+    const frame = this.getCurrentFrame();
+    const variant = this.getVariants().find(v => v.id === id);
+    if (!variant) {
+      console.warn('⚠️ Unknown variant:', id);
+      return false;
+    }
+    this.selectedVariants.set(frame?.id ?? null, variant.id);
+
+    this.applyVariant(variant);
+    this.events.emit('variantChanged', { frame, variant });
+    return true;
+  }
+
+  /**
+   * Photochromic activation from 0 (indoors) to 1 (bright sun).
+   * Pass null to estimate it from the camera image again.
+   */
+  setLensActivation(level: number | null) {
+    this.manualActivation = level;
+    this.updateLensActivation();
+  }
+
+  private getVariantFor(frame: FrameCatalogEntry | null): FrameVariant {
+    const variants = frame?.variants ?? [DEFAULT_VARIANT];
+    const selected = this.selectedVariants.get(frame?.id ?? null);
+    return variants.find(v => v.id === selected) ?? variants[0];
+  }
+
+  private applyVariant(variant: FrameVariant) {
+    this.variantApplier.apply(this.materialRoles, variant, this.sceneEl?.renderer, this.lensActivation);
+    console.log('🎨 Variant applied:', variant.name);
+  }
+
+  /**
+   * Re-tint photochromic lenses when the activation level changes noticeably
+   */
+  private updateLensActivation() {
+    const variant = this.getCurrentVariant();
+    if (!variant.lens.photochromic) return;
+
+    const level = this.manualActivation ?? this.estimateAmbientLight();
+    if (level === null || Math.abs(level - this.lensActivation) < 0.05) return;
+    this.lensActivation = level;
+    this.variantApplier.apply(this.materialRoles, variant, this.sceneEl?.renderer, level);
+  }
+
+  /**
+   * The camera video MindAR inserts next to the scene
+   */
+  private getCameraVideo(): HTMLVideoElement | null {
+    return this.sceneEl?.parentElement?.querySelector('video') ?? null;
+  }
+
+  /**
+   * Mean brightness of the camera image mapped to 0–1 activation
+   */
+  private estimateAmbientLight(): number | null {
+    const video = this.getCameraVideo();
+    if (!video || video.readyState < 2) return null;
+
+    this.lightCanvas ??= document.createElement('canvas');
+    this.lightCanvas.width = 16;
+    this.lightCanvas.height = 16;
+    const ctx = this.lightCanvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+
+    ctx.drawImage(video, 0, 0, 16, 16);
+    const { data } = ctx.getImageData(0, 0, 16, 16);
+    let sum = 0;
+    for (let i = 0; i < data.length; i += 4) {
+      sum += 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+    }
+    const brightness = sum / (data.length / 4) / 255;
+    // Typical indoor webcam images average ~0.35, bright daylight ~0.7
+    return Math.min(1, Math.max(0, (brightness - 0.35) / 0.35));
+  }
+
+  // ===== Temple Rig =====
+
+  /**
+   * Drive the temple bones of rigged models. The front keeps the frame's
+   * true scale and the temples splay, stretch and bend to fit the head.
+   */
+  private bindTempleRig(mesh: any, frame: FrameCatalogEntry | null) {
+    this.templeRig = TempleRig.bind(mesh, frame?.rig ?? DEFAULT_TEMPLE_RIG);
+    this.templeRigFrame = frame;
+    this.autoAdjuster.setTempleRigActive(!!this.templeRig);
+    if (!this.templeRig) return;
+
+    this.autoAdjuster.setBaseScale(frame?.defaultSettings.scale ?? this.settings.scale);
+    this.updateTempleFit();
+  }
+
+  private updateTempleFit() {
+    if (!this.templeRig) return;
+
+    if (this.templeFitEnabled) {
+      // The initial model loads before the catalog, so fall back to the current frame
+      const frame = this.templeRigFrame ?? this.getCurrentFrame();
+      const measurements = this.faceMeasurement.getAverageMeasurements();
+      if (!frame || !measurements || measurements.confidence < 0.5) return;
+      this.templeRig.setFit(computeTempleFit(measurements, frame));
+    } else {
+      this.templeRig.setFit(NEUTRAL_TEMPLE_FIT);
+    }
+    this.emitTempleFit();
+  }
+
+  private emitTempleFit() {
+    if (!this.templeRig) return;
+    this.events.emit('templeFitChanged', { fit: this.templeRig.getFit(), poses: this.templeRig.getPoses() });
+  }
+
+  /**
+   * Temple bones found in the loaded model (empty when it is not rigged)
+   */
+  getTempleBones(): TempleBone[] {
+    return this.templeRig?.getBones() ?? [];
+  }
+
+  getTempleFit(): TempleFit | null {
+    return this.templeRig?.getFit() ?? null;
+  }
+
+  getBonePoses(): Partial<Record<TempleBone, BonePose>> {
+    return this.templeRig?.getPoses() ?? {};
+  }
+
+  /**
+   * Fit the temples from measurements, or leave them as modelled
+   */
+  setTempleFitEnabled(enabled: boolean) {
+    this.templeFitEnabled = enabled;
+    this.updateTempleFit();
+  }
+
+  /**
+   * Manually set one bone's angle/length; null returns it to the measured fit
+   */
+  setBoneOverride(bone: TempleBone, override: BoneOverride | null): boolean {
+    if (!this.templeRig?.getBones().includes(bone)) {
+      console.warn('⚠️ Temple bone not found in model:', bone);
+      return false;
+    }
+    this.templeRig.setOverride(bone, override);
+    this.emitTempleFit();
+    return true;
+  }
+
+  // ===== Head Occluder =====
+
+  /**
+   * Resize the parametric head or re-place the face mesh in anchor space
+   */
+  private updateOccluder() {
+    const source = this.landmarkSource;
+    const anchorScale = source?.getAnchorScale();
+    if (!source || !anchorScale) return;
+
+    const options = this.occluder.getOptions();
+    if (options.mode === 'face-mesh') {
+      if (!this.occluder.hasFaceGeometry()) {
+        const geometry = source.createFaceGeometry();
+        if (!geometry) {
+          console.warn('⚠️ MindAR face mesh unavailable, using the parametric head');
+          this.occluder.setOptions({ mode: 'parametric' });
+          return;
+        }
+        this.occluder.setFaceGeometry(geometry);
+      }
+      const landmarks = source.getLandmarks();
+      const anchorIndex = this.anchorEntity?.getAttribute('mindar-face-target')?.anchorIndex ?? 168;
+      if (landmarks?.[anchorIndex]) {
+        this.occluder.placeFaceMesh(landmarks[anchorIndex], anchorScale, source.unitScale);
+      }
+    } else {
+      this.occluder.fit(this.faceMeasurement.getAverageMeasurements(), anchorScale);
+    }
+  }
+
+  getOccluderOptions(): HeadOccluderOptions {
+    return this.occluder.getOptions();
+  }
+
+  /**
+   * Switch the occluder on/off, between parametric head and face mesh, or show it for debugging
+   */
+  setOccluderOptions(options: Partial<HeadOccluderOptions>) {
+    this.occluder.setOptions(options);
+    this.updateOccluder();
+  }
+
+  // ===== Presets =====
+
+  /**
+   * Apply the most recent preset for the active profile and current frame.
+   * Meant for restoring on load: auto-adjustment may still refine the axes.
+   */
+  loadLatestPreset(): boolean {
+    const preset = this.presets.getLatest(this.getCurrentFrameId());
+    if (!preset) {
+      return false;
+    }
+    this.setSettings(preset.settings, 'restore');
+    console.log('✅ Preset loaded:', preset.name);
+    return true;
+  }
+
+  exportPresets(): string {
+    return this.presets.exportJson();
+  }
+
+  importPresets(json: string): number {
+    const count = this.presets.importJson(json);
+    this.events.emit('presetsChanged', { count });
+    return count;
+  }
+
+  // ===== Auto-Adjustment =====
+
+  /**
+   * Adjust the glasses automatically from face measurements
+   */
+  enableAutoAdjust() {
+    this.autoAdjuster.enable((adjustment: AdjustmentSettings) => {
+      this.events.emit('adjustment', adjustment);
+      const rotation = this.autoAdjuster.isAutoRotationEnabled()
+        ? { rotX: adjustment.rotX, rotY: adjustment.rotY, rotZ: adjustment.rotZ }
+        : {};
+      this.setSettings({
+        scale: adjustment.scale,
+        posX: adjustment.posX,
+        posY: adjustment.posY,
+        posZ: adjustment.posZ,
+        ...rotation
+      }, 'auto');
+    });
+  }
+
+  disableAutoAdjust() {
+    this.autoAdjuster.disable();
+  }
+
+  setAutoScaleEnabled(enabled: boolean) {
+    this.autoAdjuster.setAutoScaleEnabled(enabled);
+  }
+
+  isAutoScaleEnabled(): boolean {
+    return this.autoAdjuster.isAutoScaleEnabled();
+  }
+
+  /**
+   * Correct tilt, wrap and roll from facial features, on top of the frame's default rotation
+   */
+  setAutoRotationEnabled(enabled: boolean) {
+    this.autoAdjuster.setAutoRotationEnabled(enabled);
+  }
+
+  isAutoRotationEnabled(): boolean {
+    return this.autoAdjuster.isAutoRotationEnabled();
+  }
+
+  setRotationLimits(limits: Partial<RotationLimits>) {
+    this.autoAdjuster.setRotationLimits(limits);
+  }
+
+  getRecommendedSettings() {
+    return this.autoAdjuster.getRecommendedSettings();
+  }
+
+  // ===== Measurements =====
+
+  getFaceMeasurements() {
+    return this.faceMeasurement.getAverageMeasurements();
+  }
+
+  getFaceShape() {
+    return this.faceMeasurement.getFaceShape();
+  }
+
+  getHeadPose() {
+    return this.faceMeasurement.getHeadPose();
+  }
+
+  setPoseGate(options: Partial<PoseGateOptions>) {
+    this.faceMeasurement.setPoseGate(options);
+  }
+
+  setMeasurementFilter(options: Partial<MeasurementFilterOptions>) {
+    this.faceMeasurement.setFilterOptions(options);
+  }
+
+  setAnchorSmoothing(enabled: boolean) {
+    this.anchorEntity?.setAttribute('smooth-anchor', 'enabled', enabled);
+  }
+
+  getCalibration() {
+    return this.faceMeasurement.getCalibration();
+  }
+
+  /**
+   * Millimetre scale from a credit card (85.6 mm wide) held flat against the
+   * forehead, for landmark sources without iris landmarks
+   * @param cardWidthUnits - Card width measured in landmark units
+   */
+  calibrateWithCreditCard(cardWidthUnits: number) {
+    return this.faceMeasurement.calibrateWithCreditCard(cardWidthUnits);
+  }
+
+  /**
+   * Measure from MediaPipe's 478-point mesh on MindAR's camera video so every
+   * sample is calibrated to millimetres from the iris. MindAR's 468-point mesh
+   * has no iris. MindAR keeps driving the anchor and the head occluder.
+   */
+  async enableIrisCalibration(options: MediaPipeLandmarkSourceOptions = {}): Promise<boolean> {
+    const video = this.getCameraVideo();
+    if (!video) {
+      console.warn('⚠️ Camera video not ready, iris calibration unavailable');
+      return false;
+    }
+
+    const source = new MediaPipeLandmarkSource(video, options);
+    try {
+      await source.initialize();
+    } catch (error) {
+      console.error('❌ Failed to start MediaPipe for iris calibration:', error);
+      source.dispose();
+      return false;
+    }
+    this.faceMeasurement.setLandmarkSource(source, this.faceMeasurement.getLandmarkSource() !== this.landmarkSource);
+    this.faceMeasurement.clearMeasurements();
+    console.log('👁️ Iris calibration enabled');
+    return true;
+  }
+
+  // ===== Performance =====
+
+  /**
+   * Render FPS, tracking rate, stage timings and face-lost frequency
+   */
+  getPerformanceStats(): PerformanceStats {
+    return this.performanceMonitor.getStats();
+  }
+
+  getQualityLevel(): QualityLevel {
+    return this.adaptiveQuality.getLevel();
+  }
+
+  getAdaptiveQualityOptions(): AdaptiveQualityOptions {
+    return this.adaptiveQuality.getOptions();
+  }
+
+  /**
+   * Configure adaptive quality; `{ enabled: false }` returns to full quality
+   */
+  setAdaptiveQuality(options: Partial<AdaptiveQualityOptions>) {
+    this.adaptiveQuality.setOptions(options);
+  }
+
+  // ===== Snapshots =====
+
+  /**
+   * Capture the camera image with the glasses as a PNG/JPEG Blob
+   */
+  captureSnapshot(options: SnapshotOptions = {}): Promise<Blob> {
+    return captureSnapshot(this.sceneEl, {
+      frameName: this.getCurrentFrame()?.name ?? null,
+      measurements: this.faceMeasurement.getAverageMeasurements()
+    }, options);
+  }
+
+  // ===== Comparison =====
+
+  /**
+   * Snapshot the current frame with its settings and fit for side-by-side comparison
+   */
+  async addToComparison(): Promise<ComparisonEntry> {
+    const blob = await this.captureSnapshot({ type: 'image/jpeg', quality: 0.8, maxWidth: COMPARISON_THUMBNAIL_WIDTH });
+    const frame = this.getCurrentFrame();
+    const recommendation = this.recommendFrames();
+    const frameFit = frame ? recommendation?.frames.find(r => r.frame.id === frame.id) : undefined;
+
+    const entry = this.comparison.add({
+      frameId: frame?.id ?? null,
+      frameName: frame?.name ?? 'Current frame',
+      image: await blobToDataUrl(blob),
+      settings: this.getSettings(),
+      measurements: this.faceMeasurement.getAverageMeasurements(),
+      fit: recommendation && frameFit
+        ? { score: frameFit.score, sizeCategory: recommendation.sizeCategory, approximate: recommendation.approximate }
+        : null
+    });
+    this.events.emit('comparisonChanged', { entries: this.comparison.list() });
+    return entry;
+  }
+
+  /**
+   * Reload a compared frame and apply the settings it was captured with
+   */
+  async restoreComparison(id: string): Promise<boolean> {
+    const entry = this.comparison.get(id);
+    if (!entry) {
+      console.warn('⚠️ Comparison entry not found:', id);
+      return false;
+    }
+    if (entry.frameId && entry.frameId !== this.getCurrentFrameId()) {
+      if (!await this.selectFrame(entry.frameId)) {
+        return false;
+      }
+    }
+    this.setSettings(entry.settings, 'comparison');
+    console.log('🖼️ Restored comparison:', entry.frameName);
+    return true;
+  }
+
+  removeComparison(id: string) {
+    if (this.comparison.remove(id)) {
+      this.events.emit('comparisonChanged', { entries: this.comparison.list() });
+    }
+  }
+
+  clearComparison() {
+    this.comparison.clear();
+    this.events.emit('comparisonChanged', { entries: [] });
+  }
+
+  // ===== Session Recording =====
+
+  startSessionRecording() {
+    if (!this.sessionRecorder) {
+      console.warn('⚠️ Session recorder not ready');
+      return;
+    }
+    this.sessionRecorder.start();
+  }
+
+  /**
+   * Stop recording and (by default) download the session file
+   */
+  stopSessionRecording(download: boolean = true): TrackingSession | null {
+    const session = this.sessionRecorder?.stop() ?? null;
+    if (session && download) {
+      SessionRecorder.download(session);
+    }
+    return session;
+  }
+
+  /**
+   * Replay a recorded session (URL or parsed object) without a camera
+   */
+  async replaySession(session: string | TrackingSession, options?: ReplayOptions): Promise<ReplayResult> {
+    const replay = typeof session === 'string'
+      ? await SessionReplay.fromUrl(session, options)
+      : new SessionReplay(session, options);
+    return replay.run();
+  }
+
+  /**
+   * Run measurement and auto-adjustment on a parametric face, without a camera
+   */
+  runSyntheticFace(params: Partial<SyntheticFaceParams> = {}, options?: SyntheticRunOptions): SyntheticRunResult {
+    return runSyntheticFace(params, options);
+  }
+
+  /**
+   * Stop measuring, disconnect from the scene and remove all listeners
+   */
+  dispose() {
+    window.clearInterval(this.measureIntervalId);
+    this.measureIntervalId = undefined;
+    if (this.transitionFrame !== undefined) {
+      cancelAnimationFrame(this.transitionFrame);
+      this.transitionFrame = undefined;
+    }
+    this.sessionRecorder?.stop();
+    this.performanceMonitor.stop();
+    this.adaptiveQuality.detach();
+    this.autoAdjuster.dispose();
+    this.faceMeasurement.setLandmarkSource(null);
+    this.landmarkSource?.dispose();
+    this.detach.forEach(unsubscribe => unsubscribe());
+    this.detach = [];
+    this.variantApplier.dispose();
+    this.occluder.dispose();
+    this.landmarkSource = null;
+    this.events.clear();
+    console.log('🧹 Try-on controller disposed');
+  }
+}
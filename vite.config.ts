@@ -0,0 +1,17 @@
+import { resolve } from 'node:path';
+import { defineConfig } from 'vite';
+
+// Build the app and the <glasses-tryon> embed for product pages (dist/embed.js)
+export default defineConfig({
+  build: {
+    rollupOptions: {
+      input: {
+        main: resolve(import.meta.dirname, 'index.html'),
+        embed: resolve(import.meta.dirname, 'src/embed.ts')
+      },
+      output: {
+        entryFileNames: chunk => chunk.name === 'embed' ? 'embed.js' : 'assets/[name]-[hash].js'
+      }
+    }
+  }
+});